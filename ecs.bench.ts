@@ -0,0 +1,127 @@
+/**
+ * 存储基准测试: 生成实体、添加 / 移除组件与查询遍历。
+ *
+ * 运行 (当前的原型表存储):
+ *   tsc --strict --target es2020 --module commonjs --outDir /tmp/ecs-bench ecs.ts ecs.bench.ts
+ *   node /tmp/ecs-bench/ecs.bench.js
+ *
+ * 与原型表之前的 Map 存储对比: 把旧版本的 ecs.ts 与本文件放在同一目录下编译运行。
+ *   mkdir -p /tmp/ecs-bench-map && git show 07f516b:ecs.ts > /tmp/ecs-bench-map/ecs.ts && cp ecs.bench.ts /tmp/ecs-bench-map/
+ *   tsc --strict --target es2020 --module commonjs --outDir /tmp/ecs-bench-map/out /tmp/ecs-bench-map/*.ts
+ *   node /tmp/ecs-bench-map/out/ecs.bench.js
+ *
+ * 只使用两个版本共有的 API (createEntity / addComponent / removeComponent / removeEntity / addSystem)。
+ */
+import { ECS, Component, Stage, Query, query } from './ecs';
+
+class Position extends Component {
+    constructor(public x = 0, public y = 0) { super(); }
+}
+class Velocity extends Component {
+    constructor(public x = 1, public y = 1) { super(); }
+}
+class Health extends Component {
+    constructor(public value = 100) { super(); }
+}
+class Tag extends Component { }
+
+const ENTITIES = 10000;
+const QUERY_FRAMES = 100;
+const EXTRA_SYSTEMS = 100;
+const ROUNDS = 5;
+
+/**
+ * 创建一个带移动系统的 World (查询 Position + Velocity)。
+ * @param extraSystems 额外注册的查询系统数量 (模拟较大项目中的系统规模)
+ */
+function createWorld(extraSystems = 0): ECS {
+    const ecs = new ECS();
+    for (let i = 0; i < extraSystems; i++) {
+        ecs.addSystem(Stage.Update, [query(Health, Tag)], (_: Query<[Health, Tag]>) => {});
+    }
+    ecs.addSystem(Stage.Update, [query(Position, Velocity)], (movers: Query<[Position, Velocity]>) => {
+        for (const [position, velocity] of movers) {
+            position.x += velocity.x;
+            position.y += velocity.y;
+        }
+    });
+    return ecs;
+}
+
+/**
+ * 生成实体: 一半带 Velocity，另一半带 Health，形成两个原型。
+ */
+function spawnEntities(ecs: ECS): ReturnType<ECS['createEntity']>[] {
+    const entities: ReturnType<ECS['createEntity']>[] = [];
+    for (let i = 0; i < ENTITIES; i++) {
+        const entity = ecs.createEntity();
+        ecs.addComponent(entity, new Position(i, i));
+        ecs.addComponent(entity, i % 2 === 0 ? new Velocity() : new Health());
+        entities.push(entity);
+    }
+    return entities;
+}
+
+const workloads: { name: string, run: () => number }[] = [
+    {
+        name: `spawn ${ENTITIES} entities x2 components`,
+        run: () => {
+            const ecs = createWorld();
+            const start = performance.now();
+            spawnEntities(ecs);
+            return performance.now() - start;
+        },
+    },
+    {
+        name: `add + remove component on ${ENTITIES} entities`,
+        run: () => {
+            const ecs = createWorld();
+            const entities = spawnEntities(ecs);
+            const start = performance.now();
+            for (const entity of entities) ecs.addComponent(entity, new Tag());
+            for (const entity of entities) ecs.removeComponent(entity, Tag);
+            return performance.now() - start;
+        },
+    },
+    {
+        name: `add + remove component, ${EXTRA_SYSTEMS} extra systems`,
+        run: () => {
+            const ecs = createWorld(EXTRA_SYSTEMS);
+            const entities = spawnEntities(ecs);
+            const start = performance.now();
+            for (const entity of entities) ecs.addComponent(entity, new Tag());
+            for (const entity of entities) ecs.removeComponent(entity, Tag);
+            return performance.now() - start;
+        },
+    },
+    {
+        name: `query ${ENTITIES / 2} of ${ENTITIES} entities x${QUERY_FRAMES} frames`,
+        run: () => {
+            const ecs = createWorld();
+            spawnEntities(ecs);
+            ecs.update();
+            const start = performance.now();
+            for (let i = 0; i < QUERY_FRAMES; i++) ecs.update();
+            return performance.now() - start;
+        },
+    },
+    {
+        name: `despawn ${ENTITIES} entities`,
+        run: () => {
+            const ecs = createWorld();
+            const entities = spawnEntities(ecs);
+            const start = performance.now();
+            for (const entity of entities) ecs.removeEntity(entity);
+            ecs.update();
+            return performance.now() - start;
+        },
+    },
+];
+
+for (const workload of workloads) {
+    workload.run(); // 预热
+    const times: number[] = [];
+    for (let i = 0; i < ROUNDS; i++) times.push(workload.run());
+    times.sort((a, b) => a - b);
+    console.log(`${workload.name.padEnd(48)} median ${times[ROUNDS >> 1].toFixed(2).padStart(8)} ms`);
+}
@@ -0,0 +1,704 @@
+/**
+ * ECS 回归测试 (Node 内置测试运行器 `node:test`)。
+ *
+ * 运行:
+ *   tsc --strict --target es2020 --module commonjs --types node --outDir /tmp/ecs-test ecs.ts ecs.test.ts
+ *   node --test /tmp/ecs-test/ecs.test.js
+ */
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+    ECS, Children, Component, CoroutineFailed, Diagnostics, DiagnosticsPlugin, EntityRef, Event, FixedTime, CoroutinePlugin, Coroutines, Entity, GlobalTransform, OnDespawn, OnRemove, OnReplace, onEvent, Parent, Query, RemovedComponents, ScriptRunner, Stage,
+    SystemSet, Time, Transform, TransformPlugin, query, removed, res, setParentInPlace,
+} from './ecs';
+
+// --- 系统顺序 (System Ordering) ---
+
+describe('system ordering', () => {
+    test('reports a readable cycle when the first system is only downstream of it', () => {
+        const ecs = new ECS();
+        const a = ecs.addSystem(Stage.Update, [], () => {}).named('A');
+        const b = ecs.addSystem(Stage.Update, [], () => {}).named('B');
+        ecs.removeSystem(a);
+        ecs.removeSystem(b);
+        ecs.addSystem(Stage.Update, [], () => {}).named('C').after(a);
+        ecs.addSystem(Stage.Update, a.after(b));
+        ecs.addSystem(Stage.Update, b.after(a));
+
+        assert.throws(() => ecs.update(), {
+            message: 'System order cycle in schedule Update: A -> B -> A',
+        });
+    });
+
+    test('re-sorts when a set used by the world changes after the first run', () => {
+        const ecs = new ECS();
+        const log: string[] = [];
+        const First = new SystemSet('First');
+        const a = ecs.addSystem(Stage.Update, [], () => log.push('a')).named('A');
+        ecs.addSystem(Stage.Update, [], () => log.push('b')).named('B').inSet(First);
+        ecs.update();
+        First.before(a);
+        ecs.update();
+
+        assert.deepEqual(log, ['a', 'b', 'b', 'a']);
+    });
+
+    test('configures a shared set per world', () => {
+        const Shared = new SystemSet('Shared', true);
+        const paused = new ECS();
+        const running = new ECS();
+        const log: string[] = [];
+        paused.addSystem(Stage.Update, [], () => log.push('paused')).inSet(Shared);
+        running.addSystem(Stage.Update, [], () => log.push('running')).inSet(Shared);
+
+        assert.throws(() => Shared.runIf(() => false), /configureSet/);
+        paused.configureSet(Shared).runIf(() => false);
+        paused.update();
+        running.update();
+
+        assert.deepEqual(log, ['running']);
+    });
+
+    test('onEvent keeps a cursor per system and per world', () => {
+        const pinged = onEvent(Ping);
+        const log: string[] = [];
+        const worlds = [new ECS(), new ECS()];
+        worlds.forEach((ecs, w) => {
+            ecs.addSystem(Stage.Update, [], () => log.push(`${w}a`)).runIf(pinged);
+            ecs.addSystem(Stage.Update, [], () => log.push(`${w}b`)).runIf(pinged);
+        });
+
+        for (const ecs of worlds) ecs.pushEvent(new Ping());
+        for (const ecs of worlds) ecs.update();
+        for (const ecs of worlds) ecs.update();
+
+        assert.deepEqual(log, ['0a', '0b', '1a', '1b']);
+    });
+});
+
+// --- 时间 (Time) ---
+
+describe('time', () => {
+    test('FixedUpdate systems see the fixed step as Time.deltaTime', () => {
+        const ecs = new ECS();
+        ecs.insertResource(new FixedTime(0.25));
+        const deltas: number[] = [];
+        ecs.addSystem(Stage.FixedUpdate, [res(Time)], (time: Time) => deltas.push(time.deltaTime));
+        ecs.addSystem(Stage.Update, [res(Time)], (time: Time) => deltas.push(time.deltaTime));
+
+        ecs.tick(0.2);
+        ecs.tick(0.2);
+
+        assert.deepEqual(deltas, [0.2, 0.25, 0.2]);
+        assert.equal(ecs.getResource(Time)!.elapsedTime, 0.4);
+    });
+
+    test('rejects a non-positive fixed step', () => {
+        const ecs = new ECS();
+        ecs.insertResource(new FixedTime(0));
+
+        assert.throws(() => ecs.tick(0.1), /FixedTime.step must be greater than 0/);
+    });
+});
+
+// --- 查询 (Query) ---
+
+class Marker extends Component {}
+class Ping extends Event {}
+
+describe('query iteration', () => {
+    const spawn = (ecs: ECS, count: number) => Array.from({ length: count }, (_, i) => ecs.createEntity().add(new Health(i)));
+
+    test('yields each entity once when the loop moves it to a later archetype', () => {
+        const ecs = new ECS();
+        spawn(ecs, 5);
+        const seen: number[] = [];
+        ecs.addSystem(Stage.Update, [query(EntityRef, Health)], (healths: Query<[Entity, Health]>) => {
+            for (const [entity, health] of healths) {
+                seen.push(health.value);
+                entity.add(new Marker());
+            }
+        });
+        ecs.update();
+
+        assert.deepEqual(seen.sort(), [0, 1, 2, 3, 4]);
+    });
+
+    test('does not skip entities when the loop removes their components', () => {
+        const ecs = new ECS();
+        const entities = spawn(ecs, 6);
+        const seen: number[] = [];
+        ecs.addSystem(Stage.Update, [query(EntityRef, Health)], (healths: Query<[Entity, Health]>) => {
+            for (const [entity, health] of healths) {
+                seen.push(health.value);
+                if (health.value % 2 === 0) entity.remove(Health);
+                else entity.add(new Marker());
+                // 已遍历过的实体迁移不影响剩余的遍历
+                entities[0].add(new Marker());
+            }
+        });
+        ecs.update();
+
+        assert.deepEqual(seen.sort(), [0, 1, 2, 3, 4, 5]);
+    });
+
+    test('skips entities that stop matching before they are reached', () => {
+        const ecs = new ECS();
+        const entities = spawn(ecs, 4);
+        const seen: number[] = [];
+        ecs.addSystem(Stage.Update, [query(Health)], (healths: Query<[Health]>) => {
+            for (const [health] of healths) {
+                seen.push(health.value);
+                if (health.value === 0) entities[3].remove(Health);
+            }
+        });
+        ecs.update();
+
+        assert.deepEqual(seen.sort(), [0, 1, 2]);
+    });
+});
+
+// --- 销毁实体 (Despawn) ---
+
+class Health extends Component {
+    constructor(public value = 100) { super(); }
+}
+
+/**
+ * 记录生命周期回调顺序的组件。
+ */
+class Tracked extends Component {
+    static log: string[] = [];
+
+    static onRemove(entity: Entity): void {
+        Tracked.log.push(`onRemove ${entity.get(Tracked) ? 'readable' : 'missing'}`);
+    }
+}
+
+describe('despawn', () => {
+    test('runs destroy hooks in order while components are still readable', () => {
+        const ecs = new ECS();
+        Tracked.log = [];
+        const log = Tracked.log;
+        ecs.addObserver(OnDespawn.of(Tracked), () => log.push('OnDespawn'));
+        ecs.addObserver(OnReplace.of(Tracked), () => log.push('OnReplace'));
+        ecs.addDestroySystem(Tracked, (_entity, component) => log.push(`destroy system ${component instanceof Tracked}`));
+        ecs.addObserver(OnRemove.of(Tracked), () => log.push('OnRemove'));
+        const entity = ecs.spawn(new Tracked()).id();
+
+        ecs.removeEntity(entity);
+        ecs.update();
+
+        assert.deepEqual(log, ['OnDespawn', 'OnReplace', 'destroy system true', 'onRemove readable', 'OnRemove']);
+        assert.equal(entity.isDestroyed(), true);
+    });
+
+    test('drops components from queries and reports them as removed', () => {
+        const ecs = new ECS();
+        const seen: Entity[][] = [];
+        const removedSeen: Entity[][] = [];
+        ecs.addSystem(Stage.Update, [query(Health), removed(Health)],
+            (healthy: Query<[Health]>, gone: RemovedComponents<Health>) => {
+                seen.push([...healthy].map(([health]) => health.entity));
+                removedSeen.push(gone.read());
+            });
+        const alive = ecs.spawn(new Health()).id();
+        const dead = ecs.spawn(new Health()).id();
+        ecs.update();
+
+        ecs.removeEntity(dead);
+        ecs.update();
+        ecs.update();
+
+        assert.deepEqual([...ecs.query(Health)].map(health => health.entity), [alive]);
+        assert.deepEqual(seen[2], [alive]);
+        assert.deepEqual(removedSeen[2], [dead]);
+        assert.equal(ecs.isAlive(dead.id), false);
+    });
+
+    test('removes a despawned child from its parent\'s Children', () => {
+        const ecs = new ECS();
+        const parent = ecs.createEntity();
+        const first = ecs.createEntity().setParent(parent);
+        const second = ecs.createEntity().setParent(parent);
+
+        ecs.removeEntity(first);
+        ecs.update();
+
+        assert.deepEqual(parent.get(Children)!.value, [second]);
+        assert.equal(second.getParent(), parent);
+    });
+
+    /**
+     * root -> middle -> leaf 三层层级。
+     */
+    function hierarchy(ecs: ECS): { root: Entity, middle: Entity, leaf: Entity } {
+        const root = ecs.createEntity();
+        const middle = ecs.createEntity().setParent(root);
+        const leaf = ecs.createEntity().setParent(middle);
+        return { root, middle, leaf };
+    }
+
+    test('despawnRecursive destroys the whole subtree', () => {
+        const ecs = new ECS();
+        const { root, middle, leaf } = hierarchy(ecs);
+
+        ecs.despawnRecursive(middle);
+        ecs.update();
+
+        assert.equal(middle.isDestroyed(), true);
+        assert.equal(leaf.isDestroyed(), true);
+        assert.deepEqual(root.getChildren(), []);
+    });
+
+    test('plain despawn orphans the children', () => {
+        const ecs = new ECS();
+        const { root, middle, leaf } = hierarchy(ecs);
+
+        ecs.removeEntity(middle);
+        ecs.update();
+
+        assert.equal(leaf.isDestroyed(), false);
+        assert.equal(leaf.has(Parent), false);
+        assert.deepEqual(root.getChildren(), []);
+    });
+
+    test('despawn with reparent moves the children to the grandparent', () => {
+        const ecs = new ECS();
+        const { root, middle, leaf } = hierarchy(ecs);
+
+        ecs.removeEntity(middle, 'reparent');
+        ecs.update();
+
+        assert.equal(leaf.isDestroyed(), false);
+        assert.equal(leaf.getParent(), root);
+        assert.deepEqual(root.getChildren(), [leaf]);
+    });
+});
+
+// --- 层级 (Hierarchy) ---
+
+describe('hierarchy', () => {
+    test('rejects a Parent that would form a cycle without changing the hierarchy', () => {
+        const ecs = new ECS();
+        const a = ecs.createEntity();
+        const b = ecs.createEntity();
+        a.setParent(b);
+
+        assert.throws(() => b.add(new Parent(a)), { message: /Hierarchy cycle/ });
+
+        assert.equal(b.has(Parent), false);
+        assert.equal(a.getParent(), b);
+        assert.deepEqual(b.getChildren(), [a]);
+        assert.equal(a.has(Children), false);
+    });
+});
+
+// --- 组件生命周期 (Component Lifecycle) ---
+
+describe('component lifecycle', () => {
+    test('an OnReplace observer may remove the component being removed', () => {
+        const ecs = new ECS();
+        const log: string[] = [];
+        ecs.addObserver(OnReplace.of(Health), (trigger) => {
+            log.push('OnReplace');
+            trigger.entity!.remove(Health);
+        });
+        ecs.addObserver(OnRemove.of(Health), () => log.push('OnRemove'));
+        const entity = ecs.createEntity().add(new Health());
+
+        entity.remove(Health);
+
+        assert.equal(entity.has(Health), false);
+        assert.deepEqual(log, ['OnReplace', 'OnRemove']);
+    });
+
+    test('an OnReplace observer may remove the component being replaced', () => {
+        const ecs = new ECS();
+        let removing = true;
+        ecs.addObserver(OnReplace.of(Health), (trigger) => {
+            if (removing) trigger.entity!.remove(Health);
+        });
+        const entity = ecs.createEntity().add(new Health(1));
+
+        entity.add(new Health(2));
+        removing = false;
+
+        assert.equal(entity.get(Health)!.value, 2);
+        assert.deepEqual([...ecs.query(Health)].map(health => health.value), [2]);
+    });
+});
+
+// --- 注销回调 (Subscriptions) ---
+
+describe('subscriptions', () => {
+    test('registering the same callback twice yields independent handles', () => {
+        const ecs = new ECS();
+        let observed = 0;
+        let initialized = 0;
+        const onTrigger = () => observed++;
+        const onInit = () => initialized++;
+        const first = ecs.addObserver(OnRemove.of(Health), onTrigger);
+        ecs.addObserver(OnRemove.of(Health), onTrigger);
+        const firstInit = ecs.addInitializeSystem(Health, onInit);
+        ecs.addInitializeSystem(Health, onInit);
+        first.dispose();
+        firstInit.dispose();
+
+        const entity = ecs.createEntity().add(new Health());
+        entity.remove(Health);
+
+        assert.equal(observed, 1);
+        assert.equal(initialized, 1);
+    });
+
+    test('once works for initialize and destroy systems', () => {
+        const ecs = new ECS();
+        const log: string[] = [];
+        ecs.addInitializeSystem(Health, () => log.push('init'), { once: true });
+        ecs.addDestroySystem(Health, () => log.push('destroy'), { once: true });
+
+        for (let i = 0; i < 2; i++) {
+            ecs.createEntity().add(new Health()).remove(Health);
+        }
+
+        assert.deepEqual(log, ['init', 'destroy']);
+    });
+});
+
+// --- 协程 (Coroutines) ---
+
+describe('coroutines', () => {
+    test('throws a promise rejected with undefined into the coroutine', async () => {
+        const ecs = new ECS();
+        ecs.addPlugin(new CoroutinePlugin());
+        const log: string[] = [];
+        ecs.getResource(Coroutines)!.start(function* () {
+            try {
+                yield Promise.reject(undefined);
+                log.push('resolved');
+            } catch (error) {
+                log.push(`rejected ${error}`);
+            }
+        }());
+        ecs.update();
+        await Promise.resolve();
+        ecs.update();
+
+        assert.deepEqual(log, ['rejected undefined']);
+    });
+
+    test('a coroutine can cancel itself by removing its own ScriptRunner', () => {
+        const ecs = new ECS();
+        ecs.addPlugin(new CoroutinePlugin());
+        const log: string[] = [];
+        const entity = ecs.createEntity();
+        const runner = new ScriptRunner(function* () {
+            try {
+                yield;
+                entity.remove(ScriptRunner);
+                log.push('after remove');
+                yield;
+                log.push('resumed');
+            } finally {
+                log.push('finally');
+            }
+        }());
+        const handle = runner.handles[0];
+        entity.add(runner);
+        ecs.update();
+        ecs.update();
+        ecs.update();
+
+        assert.deepEqual(log, ['after remove', 'finally']);
+        assert.equal(handle.isCancelled(), true);
+        assert.equal([...ecs.readEvents(CoroutineFailed)].length, 0);
+    });
+
+    test('a coroutine can stop all coroutines including itself', () => {
+        const ecs = new ECS();
+        ecs.addPlugin(new CoroutinePlugin());
+        const coroutines = ecs.getResource(Coroutines)!;
+        const log: string[] = [];
+        const handle = coroutines.start(function* () {
+            try {
+                coroutines.stopAll();
+                yield;
+                log.push('resumed');
+            } finally {
+                log.push('finally');
+            }
+        }());
+        ecs.update();
+        ecs.update();
+
+        assert.deepEqual(log, ['finally']);
+        assert.equal(handle.isCancelled(), true);
+        assert.equal(coroutines.count, 0);
+        assert.equal([...ecs.readEvents(CoroutineFailed)].length, 0);
+    });
+});
+
+// --- 变换 (Transform) ---
+
+describe('transform', () => {
+    const setup = () => {
+        const ecs = new ECS();
+        ecs.addPlugin(new TransformPlugin());
+        const root = ecs.createEntity().add(new Transform(10, 0));
+        const child = ecs.createEntity().add(new Transform(0, 5)).setParent(root);
+        const grandchild = ecs.createEntity().add(new Transform(1, 1)).setParent(child);
+        const sibling = ecs.createEntity().add(new Transform(3, 0));
+        return { ecs, root, child, grandchild, sibling };
+    };
+    const position = (entity: Entity) => {
+        const global = entity.get(GlobalTransform)!;
+        return [global.x, global.y];
+    };
+
+    test('propagates Transform down the hierarchy', () => {
+        const { ecs, root, child, grandchild, sibling } = setup();
+        root.get(Transform)!.rotation = Math.PI / 2;
+        ecs.update();
+
+        assert.deepEqual(position(root), [10, 0]);
+        assert.deepEqual(position(child).map(Math.round), [5, 0]);
+        assert.deepEqual(position(grandchild).map(Math.round), [4, 1]);
+        assert.deepEqual(position(sibling), [3, 0]);
+    });
+
+    test('recomputes only dirty subtrees', () => {
+        const { ecs, root, child, grandchild, sibling } = setup();
+        ecs.update();
+        const ticks = () => [root, child, grandchild, sibling].map(e => e.get(GlobalTransform)!._changedTick);
+        const before = ticks();
+
+        child.get(Transform)!.translate(0, 1);
+        ecs.update();
+        const after = ticks();
+
+        assert.equal(after[0], before[0]);
+        assert.ok(after[1] > before[1]);
+        assert.ok(after[2] > before[2]);
+        assert.equal(after[3], before[3]);
+        assert.deepEqual(position(grandchild), [11, 7]);
+    });
+
+    test('recomputes a subtree that loses or changes its parent', () => {
+        const { ecs, child, grandchild, sibling } = setup();
+        ecs.update();
+
+        grandchild.setParent(sibling);
+        ecs.update();
+        assert.deepEqual(position(grandchild), [4, 1]);
+
+        child.removeParent();
+        ecs.update();
+        assert.deepEqual(position(child), [0, 5]);
+    });
+
+    test('setParentInPlace uses changes made since the last propagation', () => {
+        const { ecs, root, sibling } = setup();
+        ecs.update();
+
+        sibling.get(Transform)!.translate(2, 0);
+        root.get(Transform)!.translate(0, 4);
+        setParentInPlace(sibling, root);
+        ecs.update();
+
+        assert.deepEqual(position(sibling), [5, 0]);
+        assert.deepEqual([sibling.get(Transform)!.x, sibling.get(Transform)!.y], [-5, -4]);
+    });
+});
+
+// --- 存档 (Save / Load) ---
+
+describe('serialization', () => {
+    test('round-trip keeps sibling order', () => {
+        const ecs = new ECS();
+        const parent = ecs.createEntity();
+        const first = ecs.createEntity().setParent(parent);
+        const second = ecs.createEntity().setParent(parent);
+        const third = ecs.createEntity();
+        parent.insertChild(0, second);
+        parent.insertChild(1, third);
+        assert.deepEqual(parent.getChildren(), [second, third, first]);
+
+        const loaded = new ECS();
+        const entityMap = loaded.deserialize(JSON.parse(JSON.stringify(ecs.serialize())));
+        const expected = [second, third, first].map(child => entityMap.get(child.id));
+        assert.deepEqual(entityMap.get(parent.id)!.get(Children)!.value, expected);
+    });
+
+    test('loads an entity whose parent was not saved as a root', () => {
+        const ecs = new ECS();
+        const parent = ecs.createEntity();
+        const child = ecs.createEntity().setParent(parent);
+
+        const loaded = new ECS();
+        const entityMap = loaded.deserialize(JSON.parse(JSON.stringify(ecs.serialize([child]))));
+
+        const loadedChild = entityMap.get(child.id)!;
+        assert.equal(loadedChild.has(Parent), false);
+        assert.equal(loadedChild.getParent(), undefined);
+    });
+});
+
+// --- 检视与诊断 (Inspection & Diagnostics) ---
+
+describe('inspection', () => {
+    const world = () => {
+        const ecs = new ECS();
+        const Logic = new SystemSet('Logic');
+        const parent = ecs.createEntity().add(new Health(1));
+        const child = ecs.createEntity().add(new Health(2), new Marker()).setParent(parent);
+        const late = ecs.addSystem(Stage.Update, [query(Health)], (_: Query<[Health]>) => {}).named('late');
+        ecs.addSystem(Stage.Update, [query(Marker)], (_: Query<[Marker]>) => {}).named('early').inSet(Logic).before(late);
+        ecs.addObserver(OnRemove.of(Health), () => {});
+        ecs.addEntityObserver(child, OnRemove.of(Marker), () => {}, { capture: true });
+        ecs.pushEvent(new Ping());
+        return { ecs, parent, child };
+    };
+
+    test('inspect describes entities, schedules, events and observers', () => {
+        const { ecs, parent, child } = world();
+        const inspection = ecs.inspect();
+
+        assert.deepEqual(inspection.entities.find(entity => entity.id === child.id), {
+            id: child.id,
+            index: child.index,
+            generation: 0,
+            components: ['Health', 'Marker', 'Parent'],
+            parent: parent.id,
+            children: [],
+        });
+        assert.deepEqual(inspection.entities.find(entity => entity.id === parent.id)!.children, [child.id]);
+        const update = inspection.schedules.find(schedule => schedule.name === 'Update')!;
+        assert.deepEqual(update.systems.map(system => [system.name, system.sets, system.matchedEntities]), [
+            ['early', ['Logic'], 1],
+            ['late', [], 2],
+        ]);
+        assert.deepEqual(inspection.events.find(event => event.type === 'Ping'), { type: 'Ping', pending: 1, nextId: 1 });
+        assert.deepEqual(inspection.observers, [
+            { event: 'OnRemove<Health>', capture: false, count: 1 },
+            { event: 'OnRemove<Marker>', target: child.id, capture: true, count: 1 },
+        ]);
+    });
+
+    test('dump renders the inspection as text and JSON', () => {
+        const { ecs, parent, child } = world();
+        ecs.addPlugin(new DiagnosticsPlugin());
+        let now = 0;
+        ecs.getResource(Diagnostics)!.clock = { now: () => (now += 0.5) };
+        ecs.update();
+
+        assert.equal(ecs.dump(), [
+            'World (tick 5, 2 entities, 5 archetypes)',
+            'Schedules:',
+            '  Update',
+            '    early [Logic]: 1 entities',
+            '    late: 2 entities',
+            'Resources: Time, FixedTime, TypeRegistry, Diagnostics',
+            'Events:',
+            '  HierarchyChanged: 1 pending (next id 1)',
+            '  Ping: 1 pending (next id 1)',
+            'Observers:',
+            '  OnRemove<Health> (global): 1',
+            `  OnRemove<Marker> (entity ${child.id}, capture): 1`,
+            'Entities:',
+            `  ${parent.id} (0v0): Health, Children`,
+            `  ${child.id} (1v0) parent ${parent.id}: Health, Marker, Parent`,
+            'Diagnostics:',
+            '  Frames: 1, avg 0.00ms (0.0 fps), max 0.00ms',
+            '  Entities: 2, components: 5, archetypes: 5',
+            '  Systems:',
+            '    [Update] early: last 500.00ms, avg 500.00ms, max 500.00ms, runs 1',
+            '    [Update] late: last 500.00ms, avg 500.00ms, max 500.00ms, runs 1',
+        ].join('\n'));
+
+        const json = JSON.parse(ecs.dump('json'));
+        assert.deepEqual(json.entities, JSON.parse(JSON.stringify(ecs.inspectEntities())));
+        assert.deepEqual(json.diagnostics.systems.map((timing: { name: string, last: number }) => [timing.name, timing.last]), [
+            ['early', 500],
+            ['late', 500],
+        ]);
+    });
+});
+
+// --- 快照与回放 (Snapshot & Replay) ---
+
+describe('snapshot', () => {
+    const world = () => {
+        const ecs = new ECS();
+        const parent = ecs.createEntity().add(new Health(10));
+        const child = ecs.createEntity().add(new Health(20)).setParent(parent);
+        const victim = ecs.createEntity().add(new Health(30), new Marker());
+        return { ecs, parent, child, victim };
+    };
+
+    test('restore returns the world to the snapshot checksum', () => {
+        const { ecs, parent, child, victim } = world();
+        const before = ecs.checksum();
+        const snapshot = ecs.snapshot();
+
+        parent.getMut(Health)!.value = 0;
+        child.removeParent();
+        victim.despawn();
+        ecs.createEntity().add(new Health(40));
+        ecs.update();
+        assert.notEqual(ecs.checksum(), before);
+
+        ecs.restore(snapshot);
+
+        assert.equal(ecs.checksum(), before);
+        assert.equal(parent.get(Health)!.value, 10);
+        assert.equal(child.getParent(), parent);
+        assert.equal(victim.isDestroyed(), false);
+        assert.deepEqual([...ecs.query(Health)].map(health => health.value).sort(), [10, 20, 30]);
+    });
+
+    test('re-simulation after restore reuses the same entity IDs', () => {
+        const { ecs, victim } = world();
+        const snapshot = ecs.snapshot();
+        const simulate = () => {
+            victim.despawn();
+            ecs.update();
+            return [ecs.createEntity().id, ecs.createEntity().id];
+        };
+
+        const first = simulate();
+        const spawnedAfterSnapshot = ecs.getEntity(first[1])!;
+        ecs.restore(snapshot);
+        const second = simulate();
+
+        assert.deepEqual(second, first);
+        assert.equal(spawnedAfterSnapshot.isDestroyed(), true);
+    });
+
+    test('the same snapshot can be restored more than once', () => {
+        const { ecs, parent } = world();
+        const snapshot = ecs.snapshot();
+        const before = ecs.checksum();
+
+        for (let i = 0; i < 2; i++) {
+            parent.getMut(Health)!.value += 5;
+            ecs.restore(snapshot);
+            assert.equal(ecs.checksum(), before);
+        }
+    });
+
+    test('restores onEvent cursors', () => {
+        const ecs = new ECS();
+        let runs = 0;
+        ecs.addSystem(Stage.Update, [], () => runs++).runIf(onEvent(Ping));
+        ecs.update();
+        ecs.pushEvent(new Ping());
+        const snapshot = ecs.snapshot();
+
+        ecs.update();
+        ecs.restore(snapshot);
+        ecs.update();
+
+        assert.equal(runs, 2);
+    });
+});
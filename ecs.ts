@@ -1,20 +1,80 @@
+/**
+ * 实体 ID (EntityId)，由槽位索引 (index) 与代数 (generation) 组成的单个数字:
+ * `id = generation * ENTITY_INDEX_RANGE + index`。
+ * 实体销毁后槽位会被回收并递增代数，因此旧的 ID 不会与新实体冲突 (过期句柄可被检测)。
+ */
+export type EntityId = number;
+
+/**
+ * 槽位索引的取值范围 (2^32)。
+ */
+export const ENTITY_INDEX_RANGE = 2 ** 32;
+
+/**
+ * 由索引与代数组合出实体 ID。
+ */
+export function entityId(index: number, generation: number): EntityId {
+    return generation * ENTITY_INDEX_RANGE + index;
+}
+
+/**
+ * 获取实体 ID 的槽位索引。
+ */
+export function entityIndex(id: EntityId): number {
+    return id % ENTITY_INDEX_RANGE;
+}
+
+/**
+ * 获取实体 ID 的代数。
+ */
+export function entityGeneration(id: EntityId): number {
+    return Math.floor(id / ENTITY_INDEX_RANGE);
+}
+
 /**
  * 实体 (Entity) 类。
- * 既是唯一标识符 (ID)，也是组件的容器。
+ * 既是唯一标识符 (ID)，也是组件的访问入口。
+ * 组件实际存放在所属原型 (Archetype) 的表中，`_row` 为实体在表中的行号。
  * 对应 Lua ECS 中的 Entity 对象。
  */
 export class Entity {
-    private components = new Map<Function, Component>();
     public destroyed = false;
 
-    constructor(public id: number, private ecs: ECS) {}
+    // 原型存储位置 (由 ECS 维护)
+    public _archetype!: Archetype;
+    public _row = 0;
+    // 已销毁实体移出原型表后保留的组件 (此时 _archetype 为不存放行的同类型空表)
+    public _detached?: Map<Function, Component>;
+
+    constructor(public id: EntityId, private ecs: ECS) {}
+
+    /**
+     * 实体所属的 World。
+     */
+    public get world(): ECS {
+        return this.ecs;
+    }
+
+    /**
+     * 槽位索引。
+     */
+    public get index(): number {
+        return entityIndex(this.id);
+    }
+
+    /**
+     * 槽位代数。
+     */
+    public get generation(): number {
+        return entityGeneration(this.id);
+    }
 
     /**
-     * 添加组件。
+     * 添加组件或组件组 (Bundle)。
      * 别名: `addComp`
      */
-    public add(component: Component): Entity {
-        this.ecs.addComponent(this, component);
+    public add(...items: BundleItem[]): Entity {
+        this.ecs.insertBundle(this, ...items);
         return this;
     }
 
@@ -23,14 +83,22 @@ export class Entity {
      * 别名: `getComp`
      */
     public get<T extends Component>(componentClass: ClassType<T>): T | undefined {
-        return this.components.get(componentClass) as T;
+        if (this._detached) return this._detached.get(componentClass) as T | undefined;
+        return this._archetype.columns.get(componentClass)?.[this._row] as T | undefined;
     }
 
     /**
      * 检查是否拥有组件。
      */
     public has(componentClass: Function): boolean {
-        return this.components.has(componentClass);
+        return this._archetype.columns.has(componentClass);
+    }
+
+    /**
+     * 获取实体拥有的所有组件类型。
+     */
+    public getComponentTypes(): readonly Function[] {
+        return this._archetype.types;
     }
 
     /**
@@ -47,20 +115,36 @@ export class Entity {
         return this.destroyed;
     }
 
+    /**
+     * 获取组件并将其标记为已修改 (用于变更检测 `Changed<T>`)。
+     * 对应 Bevy 的 `Mut<T>` / `Query<&mut T>`。
+     */
+    public getMut<T extends Component>(componentClass: ClassType<T>): T | undefined {
+        const component = this.get(componentClass);
+        if (component) {
+            this.ecs.markChanged(component);
+        }
+        return component;
+    }
+
+    /**
+     * 将指定类型的组件标记为已修改。
+     */
+    public markChanged(componentClass: Function): void {
+        const component = this.get(componentClass as ClassType<Component>);
+        if (component) {
+            this.ecs.markChanged(component);
+        }
+    }
+
     // --- Lua ECS 风格别名 ---
     public addComp(component: Component): Entity { return this.add(component); }
     public getComp<T extends Component>(componentClass: ClassType<T>): T | undefined { return this.get(componentClass); }
     
     // --- 内部方法 ---
-    public _addComponentDirectly(component: Component) {
-        this.components.set(component.constructor, component);
-    }
-    public _removeComponentDirectly(componentClass: Function) {
-        this.components.delete(componentClass);
-    }
     public _hasAll(componentClasses: Iterable<Function>): boolean {
         for (let cls of componentClasses) {
-            if (!this.components.has(cls)) {
+            if (!this._archetype.columns.has(cls)) {
                 return false;
             }
         }
@@ -70,16 +154,20 @@ export class Entity {
     // --- 层级树 (Hierarchy) ---
 
     /**
-     * 设置父节点。
+     * 设置父节点。已有父节点时会先从旧父节点的 Children 中移除 (重新挂接)。
+     * 会形成环 (父节点是自己或自己的子孙) 时抛出错误，且不修改层级。
      * 对应 Bevy 的 `set_parent`。
      */
     public setParent(parent: Entity): this {
-        this.add(new Parent(parent));
+        assertNoHierarchyCycle(this, parent);
+        if (this.getParent() !== parent) {
+            this.add(new Parent(parent));
+        }
         return this;
     }
 
     /**
-     * 添加子节点。
+     * 添加子节点 (追加到末尾)。
      * 对应 Bevy 的 `add_child`。
      */
     public addChild(child: Entity): this {
@@ -87,6 +175,20 @@ export class Entity {
         return this;
     }
 
+    /**
+     * 在指定位置插入子节点 (已经是子节点时调整其顺序)。
+     * `index` 超出范围时追加到末尾。
+     * 对应 Bevy 的 `insert_children`。
+     */
+    public insertChild(index: number, child: Entity): this {
+        child.setParent(this);
+        const children = this.get(Children)!;
+        children.value.splice(children.value.indexOf(child), 1);
+        children.value.splice(Math.max(0, Math.min(index, children.value.length)), 0, child);
+        children.markChanged();
+        return this;
+    }
+
     /**
      * 移除父节点 (变为孤儿)。
      * 对应 Bevy 的 `remove_parent`。
@@ -110,6 +212,68 @@ export class Entity {
         return this.get(Children)?.value || [];
     }
 
+    /**
+     * 由近到远遍历所有祖先节点 (不含自身)。
+     * 对应 Bevy 的 `iter_ancestors`。
+     */
+    public *iterAncestors(): Generator<Entity> {
+        const visited = new Set<Entity>([this]);
+        let current = this.getParent();
+        while (current && !visited.has(current)) {
+            visited.add(current);
+            yield current;
+            current = current.getParent();
+        }
+    }
+
+    /**
+     * 遍历所有子孙节点 (不含自身)。
+     * @param order `depth` 深度优先 (先序，默认) 或 `breadth` 广度优先，同层按子节点顺序
+     * 对应 Bevy 的 `iter_descendants` / `iter_descendants_depth_first`。
+     */
+    public *iterDescendants(order: HierarchyOrder = 'depth'): Generator<Entity> {
+        const pending = [...this.getChildren()];
+        if (order === 'depth') pending.reverse();
+        while (pending.length > 0) {
+            const entity = order === 'depth' ? pending.pop()! : pending.shift()!;
+            yield entity;
+            const children = entity.getChildren();
+            if (order === 'depth') {
+                for (let i = children.length - 1; i >= 0; i--) pending.push(children[i]);
+            } else {
+                pending.push(...children);
+            }
+        }
+    }
+
+    /**
+     * 获取层级树的根节点 (没有父节点时返回自身)。
+     * 对应 Bevy 的 `root_ancestor`。
+     */
+    public root(): Entity {
+        let root: Entity = this;
+        for (const ancestor of this.iterAncestors()) root = ancestor;
+        return root;
+    }
+
+    /**
+     * 是否是指定实体的子孙节点。
+     */
+    public isDescendantOf(ancestor: Entity): boolean {
+        for (const entity of this.iterAncestors()) {
+            if (entity === ancestor) return true;
+        }
+        return false;
+    }
+
+    /**
+     * 销毁实体 (在帧末统一移除)。
+     * @param children 子节点的处理方式，默认 `orphan` (子节点成为根节点)
+     */
+    public despawn(children: DespawnChildren = 'orphan'): void {
+        this.ecs.removeEntity(this, children);
+    }
+
     /**
      * 递归销毁实体及其所有子节点。
      * 对应 Bevy 的 `despawn_recursive`。
@@ -119,6 +283,124 @@ export class Entity {
     }
 }
 
+// 为每个组件类型分配一个稳定的编号，用于生成原型键
+const componentTypeIds = new WeakMap<Function, number>();
+let nextComponentTypeId = 0;
+
+function componentTypeId(type: Function): number {
+    let id = componentTypeIds.get(type);
+    if (id === undefined) {
+        id = nextComponentTypeId++;
+        componentTypeIds.set(type, id);
+    }
+    return id;
+}
+
+/**
+ * 原型 (Archetype) 表。
+ * 拥有完全相同组件类型集合的实体存放在同一张表中，每种组件类型一列，每个实体一行。
+ * 添加 / 移除组件时实体在原型之间迁移，迁移目标通过边 (Edges) 缓存。
+ */
+export class Archetype {
+    public entities: Entity[] = [];
+    public columns = new Map<Function, Component[]>();
+
+    // 原型迁移边: 添加 / 移除某个组件类型后到达的原型
+    public addEdges = new Map<Function, Archetype>();
+    public removeEdges = new Map<Function, Archetype>();
+    // 已销毁实体使用的同类型空表
+    private detached?: Archetype;
+
+    /**
+     * @param id 原型编号 (-1 表示已销毁实体使用的空表，不存放行，不参与查询)
+     * @param types 组件类型列表 (按类型编号排序)
+     */
+    constructor(public id: number, public types: Function[]) {
+        for (const type of types) {
+            this.columns.set(type, []);
+        }
+    }
+
+    /**
+     * 原型键，由排序后的组件类型编号组成。
+     */
+    public static key(types: Function[]): string {
+        return types.map(componentTypeId).join(',');
+    }
+
+    /**
+     * 按类型编号排序组件类型列表。
+     */
+    public static sortTypes(types: Function[]): Function[] {
+        return [...types].sort((a, b) => componentTypeId(a) - componentTypeId(b));
+    }
+
+    /**
+     * 实体数量。
+     */
+    public get size(): number {
+        return this.entities.length;
+    }
+
+    // --- 内部方法 ---
+
+    /**
+     * 已销毁实体使用的同类型空表 (只提供 `has` / `getComponentTypes` 所需的类型信息，按需创建并缓存)。
+     */
+    public _detachedArchetype(): Archetype {
+        if (this.id === -1) return this;
+        if (!this.detached) this.detached = new Archetype(-1, this.types);
+        return this.detached;
+    }
+
+    /**
+     * 用最后一行填补被移除的行 (Swap Remove)，并更新被移动实体的行号。
+     */
+    public _swapRemove(row: number): void {
+        const last = this.entities.length - 1;
+        if (row !== last) {
+            const moved = this.entities[last];
+            this.entities[row] = moved;
+            moved._row = row;
+            for (const column of this.columns.values()) {
+                column[row] = column[last];
+            }
+        }
+        this.entities.pop();
+        for (const column of this.columns.values()) {
+            column.pop();
+        }
+    }
+}
+
+/**
+ * 进行中的一次实体遍历 (`ecs.getSystemEntities`)。
+ * 平时直接读取原型表，不复制；遍历期间第一次发生结构修改 (实体迁移 / 销毁) 之前，
+ * 由 ECS 把尚未遍历的实体冻结为列表，之后只遍历该列表，不会因 Swap Remove 跳过实体，
+ * 也不会重复产出迁移到后续原型的实体。
+ */
+class EntityIteration {
+    /** 当前原型的下标与最近产出的行号 */
+    public archetypeIndex = 0;
+    public row = -1;
+    /** 冻结后尚未遍历的实体 */
+    public frozen?: Entity[];
+
+    constructor(public archetypes: readonly Archetype[]) {}
+
+    /**
+     * 冻结尚未遍历的实体: 当前原型中最近产出的行之后的实体，以及之后所有原型中的实体。
+     */
+    public freeze(): void {
+        if (this.frozen) return;
+        const rest = this.archetypes[this.archetypeIndex]?.entities.slice(this.row + 1) ?? [];
+        for (let i = this.archetypeIndex + 1; i < this.archetypes.length; i++) {
+            rest.push(...this.archetypes[i].entities);
+        }
+        this.frozen = rest;
+    }
+}
+
 /**
  * 组件 (Component) 是状态数据的集合。每个组件实例都与一个实体 (Entity) 关联。
  * 支持定义静态生命周期钩子 (Bevy Hooks)。
@@ -126,6 +408,18 @@ export class Entity {
 export abstract class Component { 
     public entity!: Entity;
 
+    // 变更检测 Tick (由 ECS 维护)
+    public _addedTick = 0;
+    public _changedTick = 0;
+
+    /**
+     * 将组件标记为已修改。
+     * 直接修改字段不会被检测到，需要调用此方法或通过 `entity.getMut()` 获取。
+     */
+    public markChanged(): void {
+        this.entity.markChanged(this.constructor);
+    }
+
     /**
      * 克隆组件。
      * 创建一个新实例并复制属性。
@@ -169,6 +463,137 @@ export abstract class Component {
      * 对应 Bevy 的 Component Hooks (OnRemove)。
      */
     static onRemove?(entity: Entity): void;
+
+    /**
+     * (可选) 必需组件: 添加本组件时，实体上缺少的必需组件会被自动插入 (默认构造或工厂函数)。
+     * 必需组件自身的必需组件也会被插入；存在环时抛出错误。
+     * 对应 Bevy 的 `#[require(...)]`。
+     * @example static required: RequiredComponent[] = [Velocity, [Health, () => new Health(100)]];
+     */
+    static required?: RequiredComponent[];
+
+    /**
+     * (可选) 为 true 时快照 (`ecs.snapshot()`) 按引用共享该类的实例而不深拷贝 (如贴图句柄)。
+     */
+    static snapshotShared?: boolean;
+}
+
+/**
+ * 必需组件声明: 组件类型 (使用无参构造函数创建默认值)，或 `[类型, 工厂函数]`。
+ */
+export type RequiredComponent = ClassType<Component> | [ClassType<Component>, () => Component];
+
+/**
+ * 解析后的必需组件。
+ */
+interface ResolvedRequirement {
+    type: ClassType<Component>;
+    create: () => Component;
+}
+
+// 组件类型 -> 传递闭包后的必需组件列表 (缓存)
+const requiredCache = new WeakMap<Function, ResolvedRequirement[]>();
+
+/**
+ * 获取组件类型的全部必需组件 (包含间接依赖，深度优先顺序)。
+ * 必需组件之间存在环时抛出错误。
+ */
+function requiredComponentsOf(type: Function): ResolvedRequirement[] {
+    let cached = requiredCache.get(type);
+    if (cached) return cached;
+
+    const result: ResolvedRequirement[] = [];
+    const seen = new Set<Function>([type]);
+    const path: Function[] = [type];
+    const visit = (current: Function) => {
+        for (const entry of (current as typeof Component).required ?? []) {
+            const [requiredType, create] = Array.isArray(entry) ? entry : [entry, () => new entry()];
+            const cycleStart = path.indexOf(requiredType);
+            if (cycleStart !== -1) {
+                const names = [...path.slice(cycleStart), requiredType].map(t => t.name);
+                throw new Error(`Required component cycle: ${names.join(' -> ')}`);
+            }
+            if (seen.has(requiredType)) continue;
+            seen.add(requiredType);
+            result.push({ type: requiredType, create });
+            path.push(requiredType);
+            visit(requiredType);
+            path.pop();
+        }
+    };
+    visit(type);
+
+    requiredCache.set(type, result);
+    return result;
+}
+
+// --- 组件组 (Bundles) ---
+
+/**
+ * 组件组 (Bundle): 一组经常一起插入的组件，可以嵌套。
+ * 默认把实例上所有组件 / 组件组类型的字段作为内容，也可以重写 `components()`。
+ * 对应 Bevy 的 `Bundle`。
+ *
+ * @example
+ * class EnemyBundle extends Bundle {
+ *     position = new Position(0, 0);
+ *     health = new Health(100);
+ *     sprite = new SpriteBundle('enemy.png');
+ * }
+ * ecs.spawn(new EnemyBundle());
+ */
+export abstract class Bundle {
+    /**
+     * 组件组直接包含的组件与子组件组。
+     */
+    public components(): BundleItem[] {
+        return Object.values(this).filter(value => value instanceof Component || value instanceof Bundle);
+    }
+}
+
+/**
+ * 可插入实体的内容: 单个组件或组件组。
+ */
+export type BundleItem = Component | Bundle;
+
+/**
+ * 匿名组件组。
+ */
+class ComponentBundle extends Bundle {
+    constructor(private items: BundleItem[]) { super(); }
+
+    public components(): BundleItem[] {
+        return this.items;
+    }
+}
+
+/**
+ * 创建匿名组件组的辅助函数。
+ * @example const body = bundle(new Position(0, 0), new Velocity(0, 0));
+ */
+export function bundle(...items: BundleItem[]): Bundle {
+    return new ComponentBundle(items);
+}
+
+/**
+ * 展开 (嵌套的) 组件组为组件列表。同一组件类型出现多次时抛出错误。
+ */
+function flattenBundle(items: Iterable<BundleItem>): Component[] {
+    const result: Component[] = [];
+    const types = new Set<Function>();
+    const visit = (item: BundleItem, owner: string) => {
+        if (item instanceof Bundle) {
+            for (const child of item.components()) visit(child, item.constructor.name);
+            return;
+        }
+        if (types.has(item.constructor)) {
+            throw new Error(`Bundle ${owner} contains duplicate component ${item.constructor.name}`);
+        }
+        types.add(item.constructor);
+        result.push(item);
+    };
+    for (const item of items) visit(item, '<insert>');
+    return result;
 }
 
 /**
@@ -184,6 +609,14 @@ export class Parent extends Component {
         if (!parentComp) return;
         
         const parentEntity = parentComp.value;
+
+        // 替换 Parent 时不会触发 onRemove，需要先从旧父节点脱离
+        const previous = attachedParents.get(entity);
+        if (previous && previous !== parentEntity) {
+            detachChild(previous, entity);
+        }
+        attachedParents.set(entity, parentEntity);
+
         let childrenComp = parentEntity.get(Children);
         if (!childrenComp) {
             childrenComp = new Children();
@@ -191,6 +624,10 @@ export class Parent extends Component {
         }
         if (!childrenComp.value.includes(entity)) {
             childrenComp.value.push(entity);
+            childrenComp.markChanged();
+        }
+        if (previous !== parentEntity) {
+            entity.world.pushEvent(new HierarchyChanged(previous ? 'moved' : 'added', entity, parentEntity, previous));
         }
     }
 
@@ -199,18 +636,52 @@ export class Parent extends Component {
         if (!parentComp) return;
 
         const parentEntity = parentComp.value;
+        attachedParents.delete(entity);
         if (parentEntity.isDestroyed()) return;
 
-        const childrenComp = parentEntity.get(Children);
-        if (childrenComp) {
-            const index = childrenComp.value.indexOf(entity);
-            if (index !== -1) {
-                childrenComp.value.splice(index, 1);
-            }
-        }
+        detachChild(parentEntity, entity);
+        entity.world.pushEvent(new HierarchyChanged('removed', entity, undefined, parentEntity));
+    }
+}
+
+// 子节点当前挂接的父节点 (用于替换 Parent 时找到旧父节点)
+const attachedParents = new WeakMap<Entity, Entity>();
+
+/**
+ * 从父节点的 Children 中移除子节点。
+ */
+function detachChild(parent: Entity, child: Entity): void {
+    const childrenComp = parent.get(Children);
+    if (!childrenComp) return;
+    const index = childrenComp.value.indexOf(child);
+    if (index !== -1) {
+        childrenComp.value.splice(index, 1);
+        childrenComp.markChanged();
+    }
+}
+
+/**
+ * 检查把 `child` 挂到 `parent` 下是否会形成环，会则抛出错误。
+ */
+function assertNoHierarchyCycle(child: Entity, parent: Entity): void {
+    if (parent === child || parent.isDescendantOf(child)) {
+        throw new Error(`Hierarchy cycle: entity ${child.id} cannot be a child of ${parent.id}`);
     }
 }
 
+/**
+ * 子孙节点的遍历顺序。
+ */
+export type HierarchyOrder = 'depth' | 'breadth';
+
+/**
+ * 销毁实体时子节点的处理方式。
+ * - `orphan`: 子节点移除 Parent，成为根节点 (默认)
+ * - `reparent`: 子节点挂到被销毁实体的父节点下，没有父节点时成为根节点
+ * - `recursive`: 递归销毁所有子孙节点 (先子后父)
+ */
+export type DespawnChildren = 'orphan' | 'reparent' | 'recursive';
+
 /**
  * 子节点列表组件。
  * 自动维护，不要手动修改。
@@ -223,12 +694,70 @@ export class Children extends Component {
 /**
  * 资源 (Resource) 是全局唯一的组件，不属于任何特定实体。
  */
-export abstract class Resource { }
+export abstract class Resource {
+    /** (可选) 为 false 时不参与快照回滚 (`ecs.snapshot()` / `ecs.restore()`)，如配置、调试数据 */
+    static rollback?: boolean;
+    /** (可选) 为 true 时快照中 (如作为其他对象的字段时) 按引用共享而不深拷贝 */
+    static snapshotShared?: boolean;
+}
+
+/**
+ * 立即事件的传播关系: 返回实体的下一个传播目标 (没有则返回 undefined)。
+ * 对应 Bevy 的 `Traversal`。
+ */
+export type Traversal = (entity: Entity) => Entity | undefined;
+
+/**
+ * 默认传播关系: 沿 Parent 向上。
+ */
+export const parentTraversal: Traversal = (entity) => entity.get(Parent)?.value;
 
 /**
  * 事件 (Event) 用于系统之间的通信。
+ *
+ * @example
+ * // 不冒泡的事件
+ * class FocusEvent extends Event { static bubbles = false; }
+ * // 沿自定义关系传播 (例如 UI 的逻辑父节点)
+ * class ClickEvent extends Event { static traversal: Traversal = (e) => e.get(UiOwner)?.owner; }
+ */
+export abstract class Event {
+    /**
+     * 立即事件是否冒泡 (默认 true)。为 false 时仍有捕获阶段，但只有目标实体的普通观察者会收到。
+     */
+    static bubbles = true;
+
+    /**
+     * 捕获与冒泡沿用的关系，默认 `parentTraversal`。
+     */
+    static traversal: Traversal = parentTraversal;
+}
+
+/**
+ * 层级变化类型: 挂到父节点下、从父节点脱离、从一个父节点移到另一个。
+ */
+export type HierarchyChange = 'added' | 'removed' | 'moved';
+
+/**
+ * 父子关系变化时发送的缓冲事件 (通过 `EventReader` 读取)。
+ * 子节点顺序调整 (`insertChild`) 不会发送。
+ * 对应 Bevy 的 `HierarchyEvent`。
+ */
+export class HierarchyChanged extends Event {
+    constructor(
+        public kind: HierarchyChange,
+        public child: Entity,
+        /** 新的父节点 (`removed` 时为 undefined) */
+        public parent: Entity | undefined,
+        /** 原来的父节点 (`added` 时为 undefined) */
+        public previousParent?: Entity
+    ) { super(); }
+}
+
+/**
+ * 排序约束的目标: 单个系统或系统集合。
  */
-export abstract class Event { }
+export type SystemTarget = System<any> | SystemSet;
 
 /**
  * 系统 (System) 关注一组组件。它将对拥有该组件集合的每个实体运行。
@@ -252,870 +781,6289 @@ export abstract class System<T extends Component[] = Component[]> {
      */
     public ecs!: ECS
 
+    /**
+     * 从 World 中移除本系统 (等同于 `ecs.removeSystem(this)`)。
+     */
+    public dispose(): void {
+        this.ecs?.removeSystem(this);
+    }
+
     /**
      * 是否为全局系统 (Global System)。
-     * 如果为 true，ECS 不会为其自动维护实体集合 (checkES 将跳过)。
+     * 如果为 true，ECS 不会为其匹配任何原型 (不维护实体集合)。
      * 这种系统通常用于只运行逻辑，或者通过 Query 参数手动获取实体。
      */
     public isGlobal = false;
 
-    // --- 系统参数注入辅助方法 (System Parameter Injection Helpers) ---
-
     /**
-     * 获取一个查询对象，用于遍历拥有特定组件的实体。
-     * 模拟 Bevy 的 `Query<T>` 注入。
+     * 判断原型是否满足本系统的组件要求。
+     * 结果会被 ECS 缓存，只在新原型创建或系统注册时计算。
      */
-    protected query<T extends Component>(componentClass: ClassType<T>): Iterable<T> {
-        return this.ecs.query(componentClass);
+    public matchesArchetype(archetype: Archetype): boolean {
+        for (const type of this.componentsRequired) {
+            if (!archetype.columns.has(type)) return false;
+        }
+        return true;
     }
 
     /**
-     * 高级查询：直接获取组件元组，模拟 Bevy 的 Query<(&A, &B)>
-     * @param types 组件类列表
+     * 运行条件列表。所有条件都返回 true 时系统才会运行。
+     * 条件不满足时整个系统被跳过，函数式系统不会构建参数列表。
      */
-    protected *queryTuple<T extends Component[]>(...types: { [K in keyof T]: ClassType<T[K]> }): IterableIterator<T> {
-        // 获取当前系统缓存的实体集合
-        const entities = this.ecs.getSystemEntities(this);
-        
-        for (const entity of entities) {
-            // 检查是否所有组件都存在
-            let match = true;
-            const components: Component[] = [];
-            
-            for (const type of types) {
-                const comp = entity.get(type);
-                if (!comp) {
-                    match = false;
-                    break;
-                }
-                components.push(comp);
-            }
+    public runConditions: Condition[] = [];
 
-            if (match) {
-                yield components as T;
-            }
-        }
+    /**
+     * 添加运行条件 (链式调用)，多次调用时需全部满足。
+     * 对应 Bevy 的 `run_if`。
+     * @example ecs.addSystem(Stage.Update, [query(Player)], movePlayer).runIf(and(inState(GameState, GameState.Playing), not(resourceExists(Cutscene))))
+     */
+    public runIf(condition: Condition): this {
+        this.runConditions.push(condition);
+        return this;
     }
 
     /**
-     * 获取一个全局资源。
-     * 模拟 Bevy 的 `Res<T>` 注入。
+     * 上一次运行时的 Tick，用于变更检测 ("自上次运行以来")。由 ECS 维护。
      */
-    protected res<T extends Resource>(resourceClass: ClassType<T>): T {
-        const resource = this.ecs.getResource(resourceClass);
-        if (!resource) {
-            throw new Error(`Resource ${resourceClass.name} not found!`);
-        }
-        return resource;
-    }
-}
+    public lastRunTick = 0;
 
-export type ClassType<T> = new (...args: any[]) => T
+    /**
+     * (可选) 系统名称，用于排序错误与调试信息。默认使用类名或函数名。
+     */
+    public name?: string;
 
-/**
- * 事件缓冲区接口，用于缓冲模式的事件处理。
- * 包含 Push (写入) 和 Pop (读取) 操作。
- */
-export interface EventBuffer<T extends Event> {
-    push(event: T): void;
-    pop(): Iterable<T>;
-}
+    // 排序约束 (System Ordering)
+    public beforeTargets: SystemTarget[] = [];
+    public afterTargets: SystemTarget[] = [];
+    public sets: SystemSet[] = [];
 
-/**
- * 事件写入器 (EventWriter)，用于发送跨帧缓冲事件。
- * 对应 Bevy 的 `EventWriter<T>`。
- * 也可以称为 `EventPusher`。
- */
-export class EventWriter<T extends Event> implements EventBuffer<T> {
-    constructor(private ecs: ECS, private eventType: ClassType<T>) {}
+    /**
+     * 设置系统名称 (链式调用)。
+     */
+    public named(name: string): this {
+        this.name = name;
+        return this;
+    }
 
     /**
-     * 将事件推入缓冲区 (下一帧处理)。
-     * 别名: `send`
+     * 声明本系统必须在目标系统 / 集合之前运行 (链式调用)。
+     * 对应 Bevy 的 `before`。
      */
-    public push(event: T): void {
-        this.ecs.pushEvent(event);
+    public before(...targets: SystemTarget[]): this {
+        this.beforeTargets.push(...targets);
+        this.ecs?._invalidateSchedule();
+        return this;
     }
 
     /**
-     * 批量推入事件。
+     * 声明本系统必须在目标系统 / 集合之后运行 (链式调用)。
+     * 对应 Bevy 的 `after`。
      */
-    public pushBatch(events: Iterable<T>): void {
-        for (const event of events) {
-            this.ecs.pushEvent(event);
-        }
+    public after(...targets: SystemTarget[]): this {
+        this.afterTargets.push(...targets);
+        this.ecs?._invalidateSchedule();
+        return this;
     }
 
-    // --- 兼容旧接口 ---
-    public send(event: T): void { this.push(event); }
-    public sendBatch(events: Iterable<T>): void { this.pushBatch(events); }
-    
-    // EventBuffer 接口实现 (Writer 只负责 Push)
-    public pop(): Iterable<T> { return []; } 
-}
+    /**
+     * 将本系统加入系统集合 (链式调用)，继承集合的顺序约束与运行条件。
+     * 对应 Bevy 的 `in_set`。
+     */
+    public inSet(...sets: SystemSet[]): this {
+        this.sets.push(...sets);
+        this.ecs?._invalidateSchedule();
+        return this;
+    }
 
-/**
- * 事件读取器 (EventReader)，用于读取上一帧的缓冲事件。
- * 对应 Bevy 的 `EventReader<T>`。
- * 也可以称为 `EventPopper`。
- */
-export class EventReader<T extends Event> implements EventBuffer<T> {
-    constructor(private ecs: ECS, private eventType: ClassType<T>) {}
+    // --- 系统参数注入辅助方法 (System Parameter Injection Helpers) ---
 
     /**
-     * 从缓冲区弹出(读取)上一帧的事件。
-     * 注意：在双缓冲模式下，这只是读取，不会从缓冲区删除（缓冲区会在帧末自动清理）。
-     * 别名: `read`
+     * 获取一个查询对象，用于遍历拥有特定组件的实体。
+     * 模拟 Bevy 的 `Query<T>` 注入。
      */
-    public pop(): Iterable<T> {
-        return this.ecs.readEvents(this.eventType);
+    protected query<T extends Component>(componentClass: ClassType<T>): Iterable<T> {
+        return this.ecs.query(componentClass);
     }
 
-    public isEmpty(): boolean {
-        return this.ecs.eventCount(this.eventType) === 0;
+    /**
+     * 高级查询：直接获取组件元组，模拟 Bevy 的 Query<(&A, &B)>
+     * @param terms 访问项: 组件类 (必需)、`Optional(T)` 或 `EntityRef`
+     * @example for (const [entity, pos, vel] of this.queryTuple(EntityRef, Position, Optional(Velocity))) { ... }
+     */
+    protected *queryTuple<A extends QueryTerm[]>(...terms: A): IterableIterator<QueryItems<A>> {
+        // 获取当前系统缓存的实体集合
+        const entities = this.ecs.getSystemEntities(this);
+        
+        for (const entity of entities) {
+            // 必需组件缺失的实体被跳过
+            const tuple = fetchTerms(entity, terms);
+            if (tuple) {
+                yield tuple as QueryItems<A>;
+            }
+        }
     }
 
-    // --- 兼容旧接口 ---
-    public read(): Iterable<T> { return this.pop(); }
+    /**
+     * 获取一个全局资源。
+     * 模拟 Bevy 的 `Res<T>` 注入。
+     */
+    protected res<T extends Resource>(resourceClass: ClassType<T>): T {
+        const resource = this.ecs.getResource(resourceClass);
+        if (!resource) {
+            throw new Error(`Resource ${resourceClass.name} not found!`);
+        }
+        return resource;
+    }
 
-    // EventBuffer 接口实现 (Reader 只负责 Pop)
-    public push(event: T): void { }
-}
+    /**
+     * 获取 World 的命令缓冲，结构性修改会在本系统运行结束后应用。
+     * 模拟 Bevy 的 `Commands` 注入。
+     */
+    protected commands(): Commands {
+        return this.ecs.commands();
+    }
 
-/**
- * 触发器 (Trigger)，用于包装立即执行的事件和目标实体。
- * 模仿 Bevy 的 `Trigger<E>`。
- */
-export class Trigger<E extends Event> {
-    constructor(public event: E, public entity?: Entity) {}
-}
+    /**
+     * 检查组件是否在本系统上次运行之后被添加。
+     * 模拟 Bevy 的 `Ref<T>::is_added()`。
+     */
+    protected isAdded(component: Component): boolean {
+        return component._addedTick > this.lastRunTick;
+    }
 
-/**
- * 过滤器: 必须拥有某组件 (With)。
- */
-export class With<T extends Component> {
-    constructor(public type: ClassType<T>) {}
-}
+    /**
+     * 检查组件是否在本系统上次运行之后被添加或修改。
+     * 模拟 Bevy 的 `Ref<T>::is_changed()`。
+     */
+    protected isChanged(component: Component): boolean {
+        return component._changedTick > this.lastRunTick;
+    }
 
-/**
- * 过滤器: 必须不拥有某组件 (Without)。
- */
-export class Without<T extends Component> {
-    constructor(public type: ClassType<T>) {}
+    /**
+     * 获取在本系统上次运行之后被移除了指定组件的实体。
+     * 模拟 Bevy 的 `RemovedComponents<T>`。
+     */
+    protected removedComponents(componentClass: Function): Entity[] {
+        return this.ecs.readRemoved(componentClass, this.lastRunTick);
+    }
 }
 
-export type Filter = With<any> | Without<any>;
-
 /**
- * 查询 (Query) 对象。
- * 既是一个系统参数描述符，也是一个实际的迭代器。
- * 它继承自 System，利用 ECS 的机制来自动维护符合条件的实体集合。
+ * 系统集合 (SystemSet)，把一组系统打包，统一配置顺序约束与运行条件。
+ * 集合不属于特定阶段，约束只作用于同一阶段内的成员。
+ * 对应 Bevy 的 `SystemSet` / `configure_sets`。
+ *
+ * @example
+ * const Physics = new SystemSet('Physics').before(Render).runIf(not(resourceExists(Paused)));
+ * ecs.addSystem(Stage.Update, new IntegrateSystem()).inSet(Physics);
  */
-export class Query<T extends Component[]> extends System<T> {
-    public componentsRequired: ClassType<Component>[];
-    private accessTypes: ClassType<Component>[];
-    private withoutTypes: Set<Function> = new Set();
+export class SystemSet {
+    public beforeTargets: SystemTarget[] = [];
+    public afterTargets: SystemTarget[] = [];
+    public runConditions: Condition[] = [];
+    public sets: SystemSet[] = [];
+    public chained = false;
+    /** 配置版本号，每次修改递增，World 据此判断排序缓存是否失效 */
+    public _version = 0;
 
-    constructor(
-        access: { [K in keyof T]: ClassType<T[K]> },
-        filters: Filter[] = []
-    ) {
-        super();
-        this.accessTypes = access as unknown as ClassType<Component>[];
-        
-        // 计算 componentsRequired: Access + With
-        const reqs = new Set<ClassType<Component>>(this.accessTypes);
-        
-        for (const f of filters) {
-            if (f instanceof With) {
-                reqs.add(f.type);
-            } else if (f instanceof Without) {
-                this.withoutTypes.add(f.type);
-            }
-        }
-        this.componentsRequired = Array.from(reqs);
+    /**
+     * @param name 集合名称
+     * @param shared 是否为多个 World 共用的集合标签 (如插件导出的集合)。共用集合不能直接配置，
+     * 需通过 `ecs.configureSet(set)` 获取本 World 自己的配置
+     */
+    constructor(public name: string, public readonly shared = false) {}
+
+    /**
+     * 集合内所有系统必须在目标之前运行。
+     */
+    public before(...targets: SystemTarget[]): this {
+        this.assertConfigurable();
+        this.beforeTargets.push(...targets);
+        this._version++;
+        return this;
     }
 
     /**
-     * 添加 "With" 过滤器 (链式调用)。
-     * 实体必须拥有这些组件。
+     * 集合内所有系统必须在目标之后运行。
      */
-    public with(...types: ClassType<Component>[]): this {
-        for (const type of types) {
-            if (!this.componentsRequired.includes(type)) {
-                this.componentsRequired.push(type);
-            }
-        }
+    public after(...targets: SystemTarget[]): this {
+        this.assertConfigurable();
+        this.afterTargets.push(...targets);
+        this._version++;
         return this;
     }
 
     /**
-     * 添加 "Without" 过滤器 (链式调用)。
-     * 实体必须不拥有这些组件。
+     * 集合级运行条件，每次阶段运行时只求值一次。
      */
-    public without(...types: ClassType<Component>[]): this {
-        for (const type of types) {
-            this.withoutTypes.add(type);
-        }
+    public runIf(condition: Condition): this {
+        this.assertConfigurable();
+        this.runConditions.push(condition);
         return this;
     }
 
-    public update(components: Iterable<T>): void {
-        // Query 本身不执行 update 逻辑，它只是数据的提供者
+    /**
+     * 将本集合嵌套进父集合。
+     */
+    public inSet(...sets: SystemSet[]): this {
+        this.assertConfigurable();
+        this.sets.push(...sets);
+        this._version++;
+        return this;
     }
 
     /**
-     * 迭代符合条件的实体组件元组。
+     * 集合内的系统按加入阶段的顺序依次执行。
+     * 对应 Bevy 的 `(a, b, c).chain()`。
      */
-    public *[Symbol.iterator](): Iterator<T> {
-        const entities = this.ecs.getSystemEntities(this);
-        for (const entity of entities) {
-            // 检查 Without 过滤器
-            let pass = true;
-            for (const without of this.withoutTypes) {
-                if (entity.has(without)) {
-                    pass = false;
-                    break;
-                }
-            }
-            if (!pass) continue;
+    public chain(): this {
+        this.assertConfigurable();
+        this.chained = true;
+        this._version++;
+        return this;
+    }
 
-            // 提取组件
-            const tuple = this.accessTypes.map(type => entity.get(type)!);
-            yield tuple as unknown as T;
+    private assertConfigurable(): void {
+        if (this.shared) {
+            throw new Error(`SystemSet ${this.name} is shared between worlds, configure it with ecs.configureSet(${this.name})`);
         }
     }
 }
 
 /**
- * 创建 Query 的辅助函数 (函数式 API)。
- * @example query(Position, Velocity).with(Player).without(Enemy)
+ * 让一组系统 / 集合按参数顺序依次执行 (每一项都在前一项之后)。
+ * 对应 Bevy 的 `chain()`。
+ * @example chain(ecs.addSystem(Stage.Update, new InputSystem()), ecs.addSystem(Stage.Update, new MoveSystem()))
  */
-export function query<T extends Component[]>(...access: { [K in keyof T]: ClassType<T[K]> }): Query<T> {
-    return new Query(access);
+export function chain<T extends SystemTarget[]>(...targets: T): T {
+    for (let i = 1; i < targets.length; i++) {
+        targets[i].after(targets[i - 1]);
+    }
+    return targets;
 }
 
 /**
- * 资源参数描述符 (Res)。
+ * 系统歧义检测模式。
+ * 两个没有顺序约束的系统访问了相同的组件或资源时视为歧义。
  */
-export class Res<T extends Resource> {
-    constructor(public type: ClassType<T>) {}
-}
+export type AmbiguityDetection = 'ignore' | 'warn' | 'error';
+
+export type ClassType<T> = new (...args: any[]) => T
 
 /**
- * 创建 Res 的辅助函数 (函数式 API)。
- * @example res(Time)
+ * 运行条件 (Run Condition)，返回 false 时系统本帧跳过。
  */
-export function res<T extends Resource>(type: ClassType<T>): Res<T> {
-    return new Res(type);
-}
+export type Condition = (world: ECS) => boolean
 
 /**
- * 系统参数类型联合。
+ * 事件 ID，每种事件类型内单调递增，用于调试与读取游标。
+ * 对应 Bevy 的 `EventId<T>`。
  */
-export type SystemParam = Query<any> | Res<any>;
+export type EventId = number
 
 /**
- * 系统调度阶段。
+ * 带 ID 的事件记录。
  */
-export enum Stage {
-    Startup,
-    Update,
-    FixedUpdate
+export interface EventInstance<T extends Event> {
+    id: EventId;
+    event: T;
 }
 
 /**
- * EntityCommands 提供了一种链式调用来构建实体的方法 (类似 Bevy)。
+ * 单一事件类型的存储 (双缓冲)。
+ * 事件发送后保留两个更新周期，每个 `EventReader` 通过自己的游标读取尚未读过的事件。
+ * 对应 Bevy 的 `Events<T>`。
  */
-export class EntityCommands {
-    constructor(private ecs: ECS, private entity: Entity) {}
+export class Events<T extends Event> {
+    /** 上一更新周期发送的事件 */
+    private previous: EventInstance<T>[] = [];
+    /** 本更新周期发送的事件 */
+    private current: EventInstance<T>[] = [];
+    private nextEventId: EventId = 0;
 
     /**
-     * 向实体添加组件。
+     * 发送事件，返回其 ID。
      */
-    public insert(component: Component): EntityCommands {
-        this.ecs.addComponent(this.entity, component);
-        return this;
+    public send(event: T): EventId {
+        const id = this.nextEventId++;
+        this.current.push({ id, event });
+        return id;
     }
 
     /**
-     * 为该实体添加一个观察者 (Observer)。
-     * 当指定类型的事件在该实体上被触发时 (通过 `ecs.trigger(event, entity)`)，回调会被执行。
+     * 进入新的更新周期：丢弃上上周期的事件。由 `ECS.update()` 在帧开始时调用。
+     * 对应 Bevy 的 `Events::update`。
      */
-    public observe<T extends Event>(
-        eventClass: ClassType<T>, 
-        callback: (trigger: Trigger<T>) => void
-    ): EntityCommands {
-        this.ecs.addEntityObserver(this.entity, eventClass, callback);
-        return this;
+    public update(): void {
+        this.previous = this.current;
+        this.current = [];
     }
 
     /**
-     * 立即触发一个事件到该实体。
+     * 清空所有已存储的事件 (ID 计数不重置)。
      */
-    public trigger(event: Event): EntityCommands {
-        this.ecs.trigger(event, this.entity);
-        return this;
+    public clear(): void {
+        this.previous = [];
+        this.current = [];
     }
 
     /**
-     * 获取实体 ID。
+     * 下一个事件将获得的 ID，即"已读完全部事件"的游标位置。
      */
-    public id(): Entity {
-        return this.entity;
+    public get nextId(): EventId {
+        return this.nextEventId;
     }
 
     /**
-     * 添加子实体。
-     * 对应 Bevy 的 `with_children`。
+     * 当前仍被保留的最早事件 ID。
      */
-    public withChildren(spawnChildren: (parent: Entity) => void): EntityCommands {
-        spawnChildren(this.entity);
-        return this;
+    public get oldestId(): EventId {
+        return this.previous[0]?.id ?? this.current[0]?.id ?? this.nextEventId;
     }
-}
-
-/**
- * ECS (Entity Component System) 类，充当 World 的角色。
- * 管理所有实体、组件、系统、资源和事件。
- */
-export class ECS {
-    // 主要状态
-    private entities = new Map<number, Entity>() // ID -> Entity Object
-    // 所有的系统 (包括 Query)，用于实体跟踪 (checkES)
-    private systems = new Map<System, Set<Entity>>()
-    // 按阶段划分的系统执行列表
-    private systemsByStage = new Map<Stage, Set<System>>()
-
-    // 组件索引 (Component Index) - 优化 query / getComps 性能
-    private componentsByType = new Map<Function, Set<Component>>()
-
-    // 资源 (Resources) - 单例组件
-    private resources = new Map<Function, Resource>()
-
-    // 事件 (Events) - 双缓冲队列
-    private eventQueues = new Map<Function, Event[]>()
-    private nextFrameEvents = new Map<Function, Event[]>()
-
-    // 实体簿记
-    private nextEntityID = 0
-    private entitiesToDestroy = new Array<Entity>()
-
-    // 生命周期系统 (Lifecycle Systems) - 对应 Lua 的 CompInitializeSystem/CompDestroySystem
-    private initializeSystems = new Map<Function, Set<(entity: Entity, component: Component) => void>>()
-    private destroySystems = new Map<Function, Set<(entity: Entity, component: Component) => void>>()
-
-    // 立即事件系统 (Immediate Events / Observers)
-    // 全局观察者
-    private globalObservers = new Map<Function, Set<(trigger: Trigger<any>) => void>>()
-    // 实体观察者: Entity -> EventType -> Callbacks
-    private entityObservers = new Map<Entity, Map<Function, Set<(trigger: Trigger<any>) => void>>>()
 
-    constructor() {
-        this.systemsByStage.set(Stage.Startup, new Set());
-        this.systemsByStage.set(Stage.Update, new Set());
-        this.systemsByStage.set(Stage.FixedUpdate, new Set());
+    /**
+     * 当前保留的事件总数 (两个周期)。
+     */
+    public get length(): number {
+        return this.previous.length + this.current.length;
     }
 
-    // --- Bevy-like API ---
+    /**
+     * 读取 ID 不小于 `cursor` 的所有事件。
+     */
+    public readFrom(cursor: EventId): EventInstance<T>[] {
+        const result: EventInstance<T>[] = [];
+        for (const buffer of [this.previous, this.current]) {
+            for (const instance of buffer) {
+                if (instance.id >= cursor) result.push(instance);
+            }
+        }
+        return result;
+    }
 
     /**
-     * 创建一个新的实体，并返回 EntityCommands 以便链式添加组件。
-     * 对应 Bevy 的 `commands.spawn()` 或 Lua 的 `dse.createEntity()`。
+     * 游标之后尚未读取的事件数量。
      */
-    public spawn(): EntityCommands {
-        const entity = this.createEntity();
-        return new EntityCommands(this, entity);
+    public countFrom(cursor: EventId): number {
+        return this.nextEventId - Math.max(cursor, this.oldestId);
     }
 
     /**
-     * 插入一个全局资源。
-     * 对应 Bevy 的 `app.insert_resource()`。
+     * 上一更新周期发送的全部事件 (旧的双缓冲语义，供 `ECS.readEvents` 使用)。
      */
-    public insertResource(resource: Resource): void {
-        this.resources.set(resource.constructor, resource);
+    public previousCycle(): T[] {
+        return this.previous.map(instance => instance.event);
     }
 
+    // --- 内部方法 ---
+
     /**
-     * 获取一个全局资源。
-     * 对应 Bevy 的 `Res<T>`。
+     * 导出缓冲区状态 (供快照使用，事件对象不拷贝)。
      */
-    public getResource<T extends Resource>(resourceClass: ClassType<T>): T | undefined {
-        return this.resources.get(resourceClass) as T;
+    public _save(): EventsState<T> {
+        return { previous: this.previous.slice(), current: this.current.slice(), nextEventId: this.nextEventId };
     }
 
     /**
-     * 获取单例组件 (Resource 的别名)。
-     * 对应 Lua dse.getSingleComp。
-     * 如果资源不存在，会自动创建并注册。
+     * 恢复缓冲区状态。ID 计数保持单调，避免读取器游标越过恢复后的事件。
      */
-    public getSingleComp<T extends Resource>(resourceClass: ClassType<T>): T {
-        let res = this.getResource(resourceClass);
-        if (!res) {
-            res = new resourceClass();
+    public _load(state: EventsState<T>): void {
+        this.previous = state.previous.slice();
+        this.current = state.current.slice();
+        this.nextEventId = Math.max(this.nextEventId, state.nextEventId);
+    }
+}
+
+/**
+ * `Events` 缓冲区状态 (内部结构，用于快照)。
+ */
+export interface EventsState<T extends Event> {
+    previous: EventInstance<T>[];
+    current: EventInstance<T>[];
+    nextEventId: EventId;
+}
+
+/**
+ * 事件缓冲区接口，用于缓冲模式的事件处理。
+ * 包含 Push (写入) 和 Pop (读取) 操作。
+ */
+export interface EventBuffer<T extends Event> {
+    push(event: T): void;
+    pop(): Iterable<T>;
+}
+
+/**
+ * 事件写入器 (EventWriter)，用于发送缓冲事件。
+ * 对应 Bevy 的 `EventWriter<T>`。
+ * 也可以称为 `EventPusher`。
+ * 可直接构造，也可通过 `eventWriter(Type)` 作为函数式系统参数使用。
+ */
+export class EventWriter<T extends Event> implements EventBuffer<T> {
+    public ecs: ECS;
+
+    constructor(ecs: ECS | undefined, public readonly eventType: ClassType<T>) {
+        this.ecs = ecs!;
+    }
+
+    /**
+     * 将事件推入缓冲区，返回事件 ID。
+     * 别名: `send`
+     */
+    public push(event: T): EventId {
+        return this.ecs.pushEvent(event);
+    }
+
+    /**
+     * 批量推入事件，返回事件 ID 列表。
+     */
+    public pushBatch(events: Iterable<T>): EventId[] {
+        const ids: EventId[] = [];
+        for (const event of events) {
+            ids.push(this.ecs.pushEvent(event));
+        }
+        return ids;
+    }
+
+    // --- 兼容旧接口 ---
+    public send(event: T): EventId { return this.push(event); }
+    public sendBatch(events: Iterable<T>): EventId[] { return this.pushBatch(events); }
+    
+    // EventBuffer 接口实现 (Writer 只负责 Push)
+    public pop(): Iterable<T> { return []; } 
+}
+
+/**
+ * 事件读取器 (EventReader)，每个读取器持有独立的游标，`read()` 只返回它尚未读过的事件。
+ * 新建的读取器可以读到当前仍被保留的全部事件 (最多两个更新周期)。
+ * 对应 Bevy 的 `EventReader<T>`。
+ * 也可以称为 `EventPopper`。
+ * 读取器应长期持有 (系统字段或 `eventReader(Type)` 系统参数)，每帧新建会重复读到上一周期的事件。
+ */
+export class EventReader<T extends Event> implements EventBuffer<T> {
+    public ecs: ECS;
+    /** 下一个要读取的事件 ID (快照会保存并恢复) */
+    public _cursor: EventId = 0;
+
+    constructor(ecs: ECS | undefined, public readonly eventType: ClassType<T>) {
+        this.ecs = ecs!;
+    }
+
+    /**
+     * 读取所有未读事件并推进游标。
+     */
+    public read(): T[] {
+        return this.readWithId().map(instance => instance.event);
+    }
+
+    /**
+     * 读取所有未读事件 (附带事件 ID) 并推进游标。
+     */
+    public readWithId(): EventInstance<T>[] {
+        const events = this.ecs.getEvents(this.eventType);
+        const result = events.readFrom(this._cursor);
+        this._cursor = events.nextId;
+        return result;
+    }
+
+    /**
+     * 未读事件数量 (不推进游标)。
+     */
+    public len(): number {
+        return this.ecs.getEvents(this.eventType).countFrom(this._cursor);
+    }
+
+    /**
+     * 是否没有未读事件。
+     */
+    public isEmpty(): boolean {
+        return this.len() === 0;
+    }
+
+    /**
+     * 将所有当前事件标记为已读。
+     */
+    public clear(): void {
+        this._cursor = this.ecs.getEvents(this.eventType).nextId;
+    }
+
+    /**
+     * 读取上一更新周期的全部事件 (旧的双缓冲语义，不使用游标)。
+     */
+    public pop(): Iterable<T> {
+        return this.ecs.readEvents(this.eventType);
+    }
+
+    // EventBuffer 接口实现 (Reader 只负责 Pop)
+    public push(event: T): void { }
+}
+
+/**
+ * 创建 EventReader 的辅助函数 (函数式 API)，作为系统参数时游标在多次运行间保留。
+ * @example eventReader(CollisionEvent)
+ */
+export function eventReader<T extends Event>(type: ClassType<T>): EventReader<T> {
+    return new EventReader(undefined, type);
+}
+
+/**
+ * 创建 EventWriter 的辅助函数 (函数式 API)。
+ * @example eventWriter(CollisionEvent)
+ */
+export function eventWriter<T extends Event>(type: ClassType<T>): EventWriter<T> {
+    return new EventWriter(undefined, type);
+}
+
+/**
+ * 立即事件的传播阶段。
+ * - `capture`: 从根到目标的父节点 (捕获观察者)
+ * - `target`: 目标实体 (先捕获观察者，后普通观察者)
+ * - `bubble`: 从目标的父节点到根 (普通观察者)
+ * - `global`: 全局观察者
+ */
+export type TriggerPhase = 'capture' | 'target' | 'bubble' | 'global';
+
+/**
+ * 可释放的注册句柄，由 `addObserver` / `addEntityObserver` / `addInitializeSystem` / `addDestroySystem` 等返回。
+ * 调用 `dispose()` 注销对应的回调。
+ */
+export class Subscription {
+    private disposed = false;
+
+    constructor(private teardown: () => void, public readonly owner?: unknown) {}
+
+    /**
+     * 注销回调。重复调用无效果。
+     */
+    public dispose(): void {
+        if (this.disposed) return;
+        this.disposed = true;
+        this.teardown();
+    }
+
+    public isDisposed(): boolean {
+        return this.disposed;
+    }
+}
+
+/**
+ * 注册回调的通用选项。
+ */
+export interface SubscriptionOptions {
+    /**
+     * 所属者，可通过 `ecs.disposeOwner(owner)` 批量注销。
+     * 省略时为正在构建的插件 (插件外为无)。所属者为实体时，实体销毁时自动注销。
+     */
+    owner?: unknown;
+}
+
+/**
+ * 注册组件初始化 / 销毁系统的选项。
+ */
+export interface HookOptions extends SubscriptionOptions {
+    /** 只触发一次，触发后自动注销。 */
+    once?: boolean;
+}
+
+/**
+ * 注册观察者的选项。
+ */
+export interface ObserverOptions extends HookOptions {
+    /** 在捕获阶段 (根 -> 目标) 接收事件，而不是冒泡阶段。 */
+    capture?: boolean;
+}
+
+/**
+ * 观察者组件，标记由 `ecs.observe()` 生成的观察者实体。
+ * 销毁该实体 (或移除此组件) 即注销观察者。
+ * 对应 Bevy 的 `Observer` 组件。
+ */
+export class Observer extends Component {
+    constructor(public eventType: Function, public subscription: Subscription, public target?: Entity) { super(); }
+
+    static onRemove(entity: Entity): void {
+        entity.get(Observer)?.subscription.dispose();
+    }
+}
+
+/**
+ * 触发器 (Trigger)，用于包装立即执行的事件和目标实体。
+ * 模仿 Bevy 的 `Trigger<E>`。
+ */
+export class Trigger<E extends Event> {
+    /** 当前正在执行观察者的实体 (传播过程中变化)。全局观察者中为 undefined。 */
+    public currentTarget?: Entity;
+    /** 当前传播阶段。 */
+    public phase: TriggerPhase = 'target';
+
+    private propagationStopped = false;
+    private immediatePropagationStopped = false;
+
+    /**
+     * @param event 事件对象
+     * @param entity 最初的目标实体 (传播过程中不变)
+     */
+    constructor(public event: E, public entity?: Entity) {}
+
+    /**
+     * 停止传播: 当前实体剩余的观察者仍会执行，之后不再传递给其他实体。
+     * 全局观察者不受影响。
+     */
+    public stopPropagation(): void {
+        this.propagationStopped = true;
+    }
+
+    /**
+     * 立即停止传播: 当前实体剩余的观察者也不再执行。
+     */
+    public stopImmediatePropagation(): void {
+        this.propagationStopped = true;
+        this.immediatePropagationStopped = true;
+    }
+
+    public isPropagationStopped(): boolean {
+        return this.propagationStopped;
+    }
+
+    public isImmediatePropagationStopped(): boolean {
+        return this.immediatePropagationStopped;
+    }
+}
+
+/**
+ * 组件生命周期事件的基类。通过 `OnAdd.of(Type)` 等获取某个组件类型专属的事件类，
+ * 然后像普通立即事件一样观察 (全局 `addObserver` 或实体 `observe`)。生命周期事件不冒泡。
+ * 对应 Bevy 的 `OnAdd` / `OnInsert` / `OnReplace` / `OnRemove` / `OnDespawn`。
+ *
+ * 触发顺序:
+ * - 新增组件: 写入 -> 初始化系统 / `static onAdd` -> `OnAdd` -> `OnInsert`
+ * - 替换同类组件: `OnReplace` (旧值仍在实体上) -> 写入 -> 初始化系统 / `static onAdd` -> `OnInsert`
+ * - 移除组件: `OnReplace` -> 销毁系统 / `static onRemove` -> `OnRemove` -> 移除 (观察者中仍可读取组件)
+ * - 销毁实体: 先处理子节点，然后按阶段对全部组件依次 `OnDespawn` -> `OnReplace` -> 销毁系统 / `static onRemove` -> `OnRemove`，最后销毁
+ *
+ * @example
+ * ecs.addObserver(OnAdd.of(Health), (trigger) => console.log(trigger.entity, trigger.event.component.value));
+ * player.observe(OnReplace.of(Weapon), (trigger) => unequip(trigger.event.oldValue));
+ */
+export abstract class LifecycleEvent<T extends Component = Component> extends Event {
+    static bubbles = false;
+
+    /** 事件对应的组件类型 (由 `of()` 创建的子类设置)。 */
+    static componentType?: ClassType<Component>;
+
+    /**
+     * @param component 事件涉及的组件实例 (`OnReplace` 中为被替换的旧值)
+     */
+    constructor(public component: T) { super(); }
+}
+
+/**
+ * 组件类型 -> 事件基类 -> 专属事件类 (按需创建并缓存)。
+ */
+const lifecycleEventTypes = new WeakMap<Function, Map<Function, ClassType<LifecycleEvent>>>();
+
+function lifecycleEventType(kind: abstract new (...args: any[]) => LifecycleEvent, componentType: Function): ClassType<LifecycleEvent> {
+    let types = lifecycleEventTypes.get(componentType);
+    if (!types) {
+        types = new Map();
+        lifecycleEventTypes.set(componentType, types);
+    }
+    let type = types.get(kind);
+    if (!type) {
+        const created = class extends (kind as ClassType<LifecycleEvent>) {};
+        Object.defineProperty(created, 'name', { value: `${kind.name}<${componentType.name}>` });
+        (created as unknown as typeof LifecycleEvent).componentType = componentType as ClassType<Component>;
+        types.set(kind, created);
+        type = created;
+    }
+    return type;
+}
+
+/**
+ * 获取已创建的专属事件类 (没有人观察过时返回 undefined，从而跳过触发)。
+ */
+function existingLifecycleEventType(kind: Function, componentType: Function): ClassType<LifecycleEvent> | undefined {
+    return lifecycleEventTypes.get(componentType)?.get(kind);
+}
+
+/**
+ * 组件类型首次被添加到实体。
+ */
+export class OnAdd<T extends Component = Component> extends LifecycleEvent<T> {
+    static of<T extends Component>(type: ClassType<T>): ClassType<OnAdd<T>> {
+        return lifecycleEventType(OnAdd, type) as ClassType<OnAdd<T>>;
+    }
+}
+
+/**
+ * 组件被插入 (新增或替换)。
+ */
+export class OnInsert<T extends Component = Component> extends LifecycleEvent<T> {
+    static of<T extends Component>(type: ClassType<T>): ClassType<OnInsert<T>> {
+        return lifecycleEventType(OnInsert, type) as ClassType<OnInsert<T>>;
+    }
+}
+
+/**
+ * 组件的值即将被替换或移除。`oldValue` 为当前 (旧) 值，`newValue` 为新值 (移除时为 undefined)。
+ */
+export class OnReplace<T extends Component = Component> extends LifecycleEvent<T> {
+    constructor(component: T, public newValue?: T) { super(component); }
+
+    public get oldValue(): T {
+        return this.component;
+    }
+
+    static of<T extends Component>(type: ClassType<T>): ClassType<OnReplace<T>> {
+        return lifecycleEventType(OnReplace, type) as ClassType<OnReplace<T>>;
+    }
+}
+
+/**
+ * 组件即将从实体移除 (包括实体销毁)。
+ */
+export class OnRemove<T extends Component = Component> extends LifecycleEvent<T> {
+    static of<T extends Component>(type: ClassType<T>): ClassType<OnRemove<T>> {
+        return lifecycleEventType(OnRemove, type) as ClassType<OnRemove<T>>;
+    }
+}
+
+/**
+ * 拥有该组件的实体即将被销毁。
+ */
+export class OnDespawn<T extends Component = Component> extends LifecycleEvent<T> {
+    static of<T extends Component>(type: ClassType<T>): ClassType<OnDespawn<T>> {
+        return lifecycleEventType(OnDespawn, type) as ClassType<OnDespawn<T>>;
+    }
+}
+
+/**
+ * 过滤器: 必须拥有某组件 (With)。
+ */
+export class With<T extends Component> {
+    constructor(public type: ClassType<T>) {}
+}
+
+/**
+ * 过滤器: 必须不拥有某组件 (Without)。
+ */
+export class Without<T extends Component> {
+    constructor(public type: ClassType<T>) {}
+}
+
+/**
+ * 过滤器: 组件在系统上次运行之后被添加 (Added)。
+ * 对应 Bevy 的 `Added<T>`。
+ */
+export class Added<T extends Component> {
+    constructor(public type: ClassType<T>) {}
+}
+
+/**
+ * 过滤器: 组件在系统上次运行之后被添加或修改 (Changed)。
+ * 修改需通过 `entity.getMut()` 或 `component.markChanged()` 标记。
+ * 对应 Bevy 的 `Changed<T>`。
+ */
+export class Changed<T extends Component> {
+    constructor(public type: ClassType<T>) {}
+}
+
+/**
+ * 过滤器组: 满足任意一个子过滤器即可 (Or)。由 `Or(...)` 创建。
+ * 对应 Bevy 的 `Or<(F1, F2)>`。
+ */
+export class OrFilter {
+    constructor(public filters: Filter[]) {}
+}
+
+/**
+ * 过滤器: 至少拥有其中一个组件 (AnyOf)。由 `AnyOf(...)` 创建。
+ */
+export class AnyOfFilter {
+    constructor(public types: ClassType<Component>[]) {}
+}
+
+export type Filter = With<any> | Without<any> | Added<any> | Changed<any> | OrFilter | AnyOfFilter;
+
+/**
+ * 创建 Or 过滤器组。
+ * @example new Query([Health], [Or(new With(Player), new Added(Enemy))])
+ */
+export function Or(...filters: Filter[]): OrFilter {
+    return new OrFilter(filters);
+}
+
+/**
+ * 创建 AnyOf 过滤器 (等同于 `Or(new With(A), new With(B), ...)`)。
+ */
+export function AnyOf(...types: ClassType<Component>[]): AnyOfFilter {
+    return new AnyOfFilter(types);
+}
+
+/**
+ * 访问项: 可选组件，缺失时为 undefined。由 `Optional(T)` 创建。
+ * 对应 Bevy 的 `Option<&T>`。
+ */
+export class OptionalAccess<T extends Component> {
+    constructor(public type: ClassType<T>) {}
+}
+
+/**
+ * 访问项: 实体本身。使用常量 `EntityRef`。
+ * 对应 Bevy 的 `Entity` / `EntityRef`。
+ */
+export class EntityRefAccess {
+    private readonly entityRef = true;
+}
+
+/**
+ * 在查询元组中取得实体本身。
+ * @example query(EntityRef, Position)
+ */
+export const EntityRef = new EntityRefAccess();
+
+/**
+ * 创建可选组件访问项。
+ * @example query(Position, Optional(Velocity))
+ */
+export function Optional<T extends Component>(type: ClassType<T>): OptionalAccess<T> {
+    return new OptionalAccess(type);
+}
+
+/**
+ * 查询访问项: 组件类 (必需)、`Optional(T)` 或 `EntityRef`。
+ */
+export type QueryTerm = ClassType<Component> | OptionalAccess<any> | EntityRefAccess;
+
+/**
+ * 访问项对应的元组元素类型。
+ */
+export type QueryItem<A> =
+    A extends EntityRefAccess ? Entity :
+    A extends OptionalAccess<infer C> ? C | undefined :
+    A extends ClassType<infer C> ? C :
+    never;
+
+/**
+ * 访问项列表对应的元组类型。
+ */
+export type QueryItems<A extends readonly QueryTerm[]> = { [K in keyof A]: QueryItem<A[K]> };
+
+/**
+ * 按访问项从实体中取出元组元素。必需组件缺失时返回 undefined。
+ */
+function fetchTerms(entity: Entity, terms: readonly QueryTerm[]): any[] | undefined {
+    const tuple: any[] = [];
+    for (const term of terms) {
+        if (term instanceof EntityRefAccess) {
+            tuple.push(entity);
+        } else if (term instanceof OptionalAccess) {
+            tuple.push(entity.get(term.type));
+        } else {
+            const component = entity.get(term);
+            if (!component) return undefined;
+            tuple.push(component);
+        }
+    }
+    return tuple;
+}
+
+/**
+ * 过滤器在原型层面是否可能满足 (Added / Changed 只检查组件存在)。
+ */
+function filterMatchesArchetype(filter: Filter, archetype: Archetype): boolean {
+    if (filter instanceof Without) return !archetype.columns.has(filter.type);
+    if (filter instanceof OrFilter) return filter.filters.some(f => filterMatchesArchetype(f, archetype));
+    if (filter instanceof AnyOfFilter) return filter.types.some(t => archetype.columns.has(t));
+    return archetype.columns.has(filter.type);
+}
+
+/**
+ * 过滤器对单个实体是否满足 (包括 Added / Changed 的 Tick 检查)。
+ */
+function filterMatchesEntity(filter: Filter, entity: Entity, lastRunTick: number): boolean {
+    if (filter instanceof Without) return !entity.has(filter.type);
+    if (filter instanceof OrFilter) return filter.filters.some(f => filterMatchesEntity(f, entity, lastRunTick));
+    if (filter instanceof AnyOfFilter) return filter.types.some(t => entity.has(t));
+    const component = entity.get(filter.type as ClassType<Component>);
+    if (!component) return false;
+    if (filter instanceof Added) return component._addedTick > lastRunTick;
+    if (filter instanceof Changed) return component._changedTick > lastRunTick;
+    return true;
+}
+
+/**
+ * 查询 (Query) 对象。
+ * 既是一个系统参数描述符，也是一个实际的迭代器。
+ * 它继承自 System，利用 ECS 的机制来自动维护符合条件的实体集合。
+ */
+export class Query<T extends any[] = Component[]> extends System<any> {
+    public componentsRequired: ClassType<Component>[];
+    private accessTypes: QueryTerm[];
+    private withoutTypes: Set<Function> = new Set();
+    private addedTypes: Set<Function> = new Set();
+    private changedTypes: Set<Function> = new Set();
+    private orFilters: (OrFilter | AnyOfFilter)[] = [];
+
+    /**
+     * @param access 访问项: 组件类、`Optional(T)` 或 `EntityRef`
+     * @param filters 过滤器: `With` / `Without` / `Added` / `Changed` / `Or(...)` / `AnyOf(...)`
+     */
+    constructor(
+        access: { [K in keyof T]: ClassType<T[K]> } | QueryTerm[],
+        filters: Filter[] = []
+    ) {
+        super();
+        this.accessTypes = access as QueryTerm[];
+        
+        // 计算 componentsRequired: 必需的访问项 + With
+        const reqs = new Set<ClassType<Component>>();
+        for (const term of this.accessTypes) {
+            if (typeof term === 'function') reqs.add(term);
+        }
+        
+        for (const f of filters) {
+            if (f instanceof With) {
+                reqs.add(f.type);
+            } else if (f instanceof Without) {
+                this.withoutTypes.add(f.type);
+            } else if (f instanceof Added) {
+                reqs.add(f.type);
+                this.addedTypes.add(f.type);
+            } else if (f instanceof Changed) {
+                reqs.add(f.type);
+                this.changedTypes.add(f.type);
+            } else {
+                this.orFilters.push(f);
+            }
+        }
+        this.componentsRequired = Array.from(reqs);
+    }
+
+    /**
+     * 添加 "With" 过滤器 (链式调用)。
+     * 实体必须拥有这些组件。
+     */
+    public with(...types: ClassType<Component>[]): this {
+        for (const type of types) {
+            if (!this.componentsRequired.includes(type)) {
+                this.componentsRequired.push(type);
+            }
+        }
+        return this;
+    }
+
+    /**
+     * 添加 "Without" 过滤器 (链式调用)。
+     * 实体必须不拥有这些组件。
+     */
+    public without(...types: ClassType<Component>[]): this {
+        for (const type of types) {
+            this.withoutTypes.add(type);
+        }
+        return this;
+    }
+
+    /**
+     * 添加 "Added" 过滤器 (链式调用)。
+     * 只保留这些组件在系统上次运行之后被添加的实体。
+     */
+    public added(...types: ClassType<Component>[]): this {
+        this.with(...types);
+        for (const type of types) {
+            this.addedTypes.add(type);
+        }
+        return this;
+    }
+
+    /**
+     * 添加 "Changed" 过滤器 (链式调用)。
+     * 只保留这些组件在系统上次运行之后被添加或修改的实体。
+     */
+    public changed(...types: ClassType<Component>[]): this {
+        this.with(...types);
+        for (const type of types) {
+            this.changedTypes.add(type);
+        }
+        return this;
+    }
+
+    /**
+     * 添加 "Or" 过滤器组 (链式调用)。
+     * 满足任意一个子过滤器即可。
+     */
+    public or(...filters: Filter[]): this {
+        this.orFilters.push(new OrFilter(filters));
+        return this;
+    }
+
+    public update(components: Iterable<T>): void {
+        // Query 本身不执行 update 逻辑，它只是数据的提供者
+    }
+
+    public matchesArchetype(archetype: Archetype): boolean {
+        for (const without of this.withoutTypes) {
+            if (archetype.columns.has(without)) return false;
+        }
+        for (const group of this.orFilters) {
+            if (!filterMatchesArchetype(group, archetype)) return false;
+        }
+        return super.matchesArchetype(archetype);
+    }
+
+    /**
+     * 迭代符合条件的实体组件元组。
+     */
+    public *[Symbol.iterator](): Iterator<T> {
+        for (const entity of this.ecs.getSystemEntities(this)) {
+            // Without 过滤器已在原型匹配时处理
+            if (!this.passesEntityFilters(entity)) continue;
+
+            // 提取组件
+            const tuple = fetchTerms(entity, this.accessTypes);
+            if (tuple) yield tuple as T;
+        }
+    }
+
+    /**
+     * 获取指定实体的元组，实体不匹配时返回 undefined。
+     * 对应 Bevy 的 `Query::get`。
+     */
+    public get(entity: Entity): T | undefined {
+        if (!this.contains(entity)) return undefined;
+        return fetchTerms(entity, this.accessTypes) as T | undefined;
+    }
+
+    /**
+     * 实体是否匹配本查询。
+     */
+    public contains(entity: Entity): boolean {
+        if (entity.isDestroyed()) return false;
+        return this.ecs.getSystemArchetypes(this).includes(entity._archetype) && this.passesEntityFilters(entity);
+    }
+
+    /**
+     * 获取唯一的匹配结果，匹配数不是 1 时抛出错误。
+     * 对应 Bevy 的 `Query::single`。
+     * @example const [playerPos] = players.single();
+     */
+    public single(): T {
+        let result: T | undefined;
+        let count = 0;
+        for (const tuple of this) {
+            if (++count > 1) break;
+            result = tuple;
+        }
+        if (count !== 1) {
+            throw new Error(`Query.single() expected exactly one match, found ${count === 0 ? 'none' : 'more than one'}`);
+        }
+        return result!;
+    }
+
+    /**
+     * 获取唯一的匹配结果，匹配数不是 1 时返回 undefined。
+     * 对应 Bevy 的 `Query::get_single`。
+     */
+    public getSingle(): T | undefined {
+        let result: T | undefined;
+        let count = 0;
+        for (const tuple of this) {
+            if (++count > 1) return undefined;
+            result = tuple;
+        }
+        return result;
+    }
+
+    /**
+     * 匹配的实体数量。没有 Added / Changed / Or 过滤器时直接累加原型大小。
+     */
+    public count(): number {
+        if (this.addedTypes.size === 0 && this.changedTypes.size === 0 && this.orFilters.length === 0) {
+            let count = 0;
+            for (const archetype of this.ecs.getSystemArchetypes(this)) {
+                count += archetype.size;
+            }
+            return count;
+        }
+        let count = 0;
+        for (const _ of this) count++;
+        return count;
+    }
+
+    /**
+     * 是否没有任何匹配。
+     */
+    public isEmpty(): boolean {
+        for (const _ of this) return false;
+        return true;
+    }
+
+    /**
+     * 遍历 k 个不同匹配结果的所有组合 (不重复、不考虑顺序)，用于两两碰撞检测等。
+     * 对应 Bevy 的 `Query::iter_combinations`。
+     * @example for (const [[posA], [posB]] of colliders.iterCombinations(2)) { ... }
+     */
+    public *iterCombinations(k: number = 2): IterableIterator<T[]> {
+        const items = [...this];
+        if (k <= 0 || k > items.length) return;
+        const indices = Array.from({ length: k }, (_, i) => i);
+        while (true) {
+            yield indices.map(i => items[i]);
+            // 找到最右边还能递增的位置
+            let i = k - 1;
+            while (i >= 0 && indices[i] === items.length - k + i) i--;
+            if (i < 0) return;
+            indices[i]++;
+            for (let j = i + 1; j < k; j++) {
+                indices[j] = indices[j - 1] + 1;
+            }
+        }
+    }
+
+    /**
+     * 检查原型匹配之外的逐实体过滤器 (Added / Changed / Or)。
+     */
+    private passesEntityFilters(entity: Entity): boolean {
+        for (const type of this.addedTypes) {
+            if (entity.get(type as ClassType<Component>)!._addedTick <= this.lastRunTick) return false;
+        }
+        for (const type of this.changedTypes) {
+            if (entity.get(type as ClassType<Component>)!._changedTick <= this.lastRunTick) return false;
+        }
+        // Or 组中的 Added / Changed 需要逐实体检查
+        return this.orFilters.every(group => filterMatchesEntity(group, entity, this.lastRunTick));
+    }
+}
+
+/**
+ * 创建 Query 的辅助函数 (函数式 API)。
+ * @example query(Position, Velocity).with(Player).without(Enemy)
+ * @example query(EntityRef, Position, Optional(Velocity)).or(new With(Player), new With(Npc))
+ */
+export function query<A extends QueryTerm[]>(...access: A): Query<QueryItems<A>> {
+    return new Query<QueryItems<A>>(access);
+}
+
+/**
+ * 资源参数描述符 (Res)。
+ */
+export class Res<T extends Resource> {
+    constructor(public type: ClassType<T>) {}
+}
+
+/**
+ * 创建 Res 的辅助函数 (函数式 API)。
+ * @example res(Time)
+ */
+export function res<T extends Resource>(type: ClassType<T>): Res<T> {
+    return new Res(type);
+}
+
+/**
+ * 已移除组件读取器 (RemovedComponents)。
+ * 既是系统参数描述符，也可以直接迭代：产出自系统上次运行以来被移除了该组件的实体。
+ * 对应 Bevy 的 `RemovedComponents<T>`。
+ */
+export class RemovedComponents<T extends Component> {
+    public ecs!: ECS;
+    public lastRunTick = 0;
+
+    constructor(public type: ClassType<T>) {}
+
+    /**
+     * 读取自上次运行以来被移除了该组件的实体。
+     */
+    public read(): Entity[] {
+        return this.ecs.readRemoved(this.type, this.lastRunTick);
+    }
+
+    public [Symbol.iterator](): Iterator<Entity> {
+        return this.read()[Symbol.iterator]();
+    }
+}
+
+/**
+ * 创建 RemovedComponents 的辅助函数 (函数式 API)。
+ * @example removed(Health)
+ */
+export function removed<T extends Component>(type: ClassType<T>): RemovedComponents<T> {
+    return new RemovedComponents(type);
+}
+
+/**
+ * 命令缓冲参数描述符，注入 World 的 `Commands`。
+ */
+export class CommandsParam { }
+
+/**
+ * 创建 Commands 参数的辅助函数 (函数式 API)。
+ * @example ecs.addSystem(Stage.Update, [query(Health), commands()], (q, cmd) => { ... cmd.despawn(entity) })
+ */
+export function commands(): CommandsParam {
+    return new CommandsParam();
+}
+
+/**
+ * 系统参数类型联合。
+ */
+export type SystemParam = Query<any> | Res<any> | StateParam<any> | RemovedComponents<any> | CommandsParam | EventReader<any> | EventWriter<any>;
+
+/**
+ * 函数式系统: 由 `addSystem(stage, params, fn)` 创建的全局系统，每次运行时解析参数并调用回调。
+ */
+class FunctionSystem extends System<[]> {
+    public componentsRequired = [];
+    public isGlobal = true;
+
+    constructor(public params: SystemParam[], private callback: (...args: any[]) => void) {
+        super();
+        if (callback.name) {
+            this.name = callback.name;
+        }
+    }
+
+    public update(): void {
+        const args = this.params.map(p => {
+            if (p instanceof Query || p instanceof RemovedComponents) {
+                // 变更检测以外层系统的上次运行为准
+                p.lastRunTick = this.lastRunTick;
+                return p;
+            } else if (p instanceof Res) {
+                const res = this.ecs.getResource(p.type);
+                if (!res) throw new Error(`Resource ${p.type.name} not found`);
+                return res;
+            } else if (p instanceof StateParam) {
+                const res = p.next ? this.ecs.getNextState(p.type) : this.ecs.getState(p.type);
+                if (!res) throw new Error(`State has not been initialized, call ecs.initState() first`);
+                return res;
+            } else if (p instanceof CommandsParam) {
+                return this.ecs.commands();
+            } else if (p instanceof EventReader || p instanceof EventWriter) {
+                // 读取器实例在多次运行间保留，游标随之保留
+                return p;
+            }
+        });
+        this.callback(...args);
+    }
+}
+
+/**
+ * 系统调度阶段 (内置调度)。
+ * - `startup()`: PreStartup → Startup → PostStartup
+ * - `update()`: First → PreUpdate → (状态切换) → Update → PostUpdate → Last
+ * - `fixedUpdate()`: FixedPreUpdate → FixedUpdate → FixedPostUpdate
+ * 对应 Bevy 的 `Main` / `FixedMain` 中的各个调度。
+ */
+export enum Stage {
+    Startup,
+    Update,
+    FixedUpdate,
+    PreStartup,
+    PostStartup,
+    First,
+    PreUpdate,
+    PostUpdate,
+    Last,
+    FixedPreUpdate,
+    FixedPostUpdate
+}
+
+// --- 状态 (States) ---
+
+/**
+ * 状态值，通常是 TypeScript 枚举成员。
+ */
+export type StateValue = string | number;
+
+/**
+ * 状态类型，即枚举对象本身 (例如 `GameState`)，用于区分不同的状态机。
+ */
+export type StatesType = object;
+
+// 为每个状态类型分配一个稳定的编号，用于生成调度键
+const stateTypeIds = new WeakMap<StatesType, number>();
+let nextStateTypeId = 0;
+
+function stateTypeId(type: StatesType): number {
+    let id = stateTypeIds.get(type);
+    if (id === undefined) {
+        id = nextStateTypeId++;
+        stateTypeIds.set(type, id);
+    }
+    return id;
+}
+
+/**
+ * 当前状态资源。
+ * 对应 Bevy 的 `State<S>`。只读，切换状态请使用 `NextState`。
+ */
+export class State<S extends StateValue = StateValue> extends Resource {
+    constructor(public readonly type: StatesType, private current: S) { super(); }
+
+    /**
+     * 获取当前状态值。
+     */
+    public get(): S {
+        return this.current;
+    }
+
+    /**
+     * 检查当前是否处于指定状态。
+     */
+    public is(value: S): boolean {
+        return this.current === value;
+    }
+
+    // --- 内部方法 ---
+    public _set(value: S): void {
+        this.current = value;
+    }
+}
+
+/**
+ * 下一个状态资源。
+ * 对应 Bevy 的 `NextState<S>`。调用 `set` 后，切换会在下一次 `ecs.update()` 开始时统一生效。
+ */
+export class NextState<S extends StateValue = StateValue> extends Resource {
+    public pending: S | undefined = undefined;
+
+    constructor(public readonly type: StatesType) { super(); }
+
+    /**
+     * 请求切换到指定状态。
+     */
+    public set(value: S): void {
+        this.pending = value;
+    }
+
+    /**
+     * 取消尚未生效的切换请求。
+     */
+    public reset(): void {
+        this.pending = undefined;
+    }
+}
+
+/**
+ * 状态调度标签的基类。
+ * 注册到这些调度中的系统不会每帧运行，而是在状态切换时运行一次。
+ */
+export abstract class StateSchedule {
+    /**
+     * 调度键，相同状态与参数的标签具有相同的键。
+     */
+    public abstract readonly key: string;
+}
+
+/**
+ * 进入某个状态时运行的调度。
+ * 对应 Bevy 的 `OnEnter(S)`。
+ */
+export class OnEnter<S extends StateValue> extends StateSchedule {
+    public readonly key: string;
+    constructor(public readonly type: StatesType, public readonly value: S) {
+        super();
+        this.key = `OnEnter(${stateTypeId(type)}:${JSON.stringify(value)})`;
+    }
+}
+
+/**
+ * 退出某个状态时运行的调度。
+ * 对应 Bevy 的 `OnExit(S)`。
+ */
+export class OnExit<S extends StateValue> extends StateSchedule {
+    public readonly key: string;
+    constructor(public readonly type: StatesType, public readonly value: S) {
+        super();
+        this.key = `OnExit(${stateTypeId(type)}:${JSON.stringify(value)})`;
+    }
+}
+
+/**
+ * 从 `from` 切换到 `to` 时运行的调度 (在 OnExit 之后、OnEnter 之前)。
+ * 对应 Bevy 的 `OnTransition { exited, entered }`。
+ */
+export class OnTransition<S extends StateValue> extends StateSchedule {
+    public readonly key: string;
+    constructor(public readonly type: StatesType, public readonly from: S, public readonly to: S) {
+        super();
+        this.key = `OnTransition(${stateTypeId(type)}:${JSON.stringify(from)}->${JSON.stringify(to)})`;
+    }
+}
+
+/**
+ * 创建 OnEnter 调度标签的辅助函数。
+ * @example ecs.addSystem(onEnter(GameState, GameState.Playing), [], spawnLevel)
+ */
+export function onEnter<S extends StateValue>(type: StatesType, value: S): OnEnter<S> {
+    return new OnEnter(type, value);
+}
+
+/**
+ * 创建 OnExit 调度标签的辅助函数。
+ */
+export function onExit<S extends StateValue>(type: StatesType, value: S): OnExit<S> {
+    return new OnExit(type, value);
+}
+
+/**
+ * 创建 OnTransition 调度标签的辅助函数。
+ */
+export function onTransition<S extends StateValue>(type: StatesType, from: S, to: S): OnTransition<S> {
+    return new OnTransition(type, from, to);
+}
+
+/**
+ * 调度标签: 内置阶段、状态调度或用户自定义调度 (字符串名称)。
+ * 自定义调度不会自动运行，需要通过 `ecs.runSchedule(label)` 手动驱动。
+ * @example ecs.addSystem('CombatTurn', new ResolveAttacksSystem()); ecs.runSchedule('CombatTurn');
+ */
+export type ScheduleLabel = Stage | StateSchedule | string;
+
+/**
+ * 状态切换完成后发送的缓冲事件。
+ * 对应 Bevy 的 `StateTransitionEvent<S>`。
+ */
+export class StateTransitionEvent<S extends StateValue = StateValue> extends Event {
+    constructor(public type: StatesType, public exited: S, public entered: S) { super(); }
+}
+
+/**
+ * 状态作用域组件。
+ * 拥有此组件的实体会在退出指定状态时被自动递归销毁。
+ * 对应 Bevy 的 `StateScoped<S>`。
+ */
+export class StateScoped<S extends StateValue = StateValue> extends Component {
+    constructor(public type: StatesType, public value: S) { super(); }
+}
+
+/**
+ * 运行条件: 仅当处于指定状态时运行。
+ * 对应 Bevy 的 `in_state`。
+ */
+export function inState<S extends StateValue>(type: StatesType, value: S): Condition {
+    return (world) => world.getState<S>(type)?.get() === value;
+}
+
+/**
+ * 状态参数描述符，注入 `State<S>` 或 `NextState<S>`。
+ */
+export class StateParam<S extends StateValue> {
+    constructor(public type: StatesType, public next: boolean = false) {}
+}
+
+/**
+ * 注入当前状态 `State<S>` 的辅助函数 (函数式 API)。
+ * @example ecs.addSystem(Stage.Update, [state(GameState)], (s) => { if (s.is(GameState.Paused)) ... })
+ */
+export function state<S extends StateValue>(type: StatesType): StateParam<S> {
+    return new StateParam<S>(type);
+}
+
+/**
+ * 注入 `NextState<S>` 的辅助函数 (函数式 API)。
+ * @example ecs.addSystem(Stage.Update, [nextState(GameState)], (next) => next.set(GameState.Paused))
+ */
+export function nextState<S extends StateValue>(type: StatesType): StateParam<S> {
+    return new StateParam<S>(type, true);
+}
+
+// --- 运行条件 (Run Conditions) ---
+
+/**
+ * 运行条件: 资源存在时运行。
+ * 对应 Bevy 的 `resource_exists`。
+ */
+export function resourceExists(resourceClass: ClassType<Resource>): Condition {
+    return (world) => world.getResource(resourceClass) !== undefined;
+}
+
+/**
+ * 运行条件: 资源存在且与给定值浅比较相等时运行。
+ * 对应 Bevy 的 `resource_equals`。
+ * @example resourceEquals(new Difficulty('hard'))
+ */
+export function resourceEquals<T extends Resource>(value: T): Condition {
+    return (world) => {
+        const current = world.getResource(value.constructor as ClassType<T>);
+        if (!current) return false;
+        const keys = Object.keys(value) as (keyof T)[];
+        return keys.length === Object.keys(current).length && keys.every(key => current[key] === value[key]);
+    };
+}
+
+/**
+ * 运行条件: 有指定类型的未读缓冲事件时运行。
+ * 读取游标属于 World 与使用该条件的系统 / 集合，同一个条件对象可以被多个系统或多个 World 共用，
+ * 对每个使用者每个事件只触发一次。
+ * 对应 Bevy 的 `on_event`。
+ */
+export function onEvent(eventClass: ClassType<Event>): Condition {
+    const key = {};
+    return (world) => {
+        const reader = world._conditionEventReader(key, eventClass);
+        const unread = !reader.isEmpty();
+        reader.clear();
+        return unread;
+    };
+}
+
+/**
+ * 运行条件: 至少有一个实体拥有指定组件时运行。
+ * 对应 Bevy 的 `any_with_component`。
+ */
+export function anyWithComponent(componentClass: ClassType<Component>): Condition {
+    return (world) => {
+        for (const component of world.query(componentClass)) {
+            if (!component.isDestroyed()) return true;
+        }
+        return false;
+    };
+}
+
+/**
+ * 组合条件: 全部满足 (短路求值)。
+ */
+export function and(...conditions: Condition[]): Condition {
+    return (world) => conditions.every(condition => condition(world));
+}
+
+/**
+ * 组合条件: 任一满足 (短路求值)。
+ */
+export function or(...conditions: Condition[]): Condition {
+    return (world) => conditions.some(condition => condition(world));
+}
+
+/**
+ * 组合条件: 取反。
+ */
+export function not(condition: Condition): Condition {
+    return (world) => !condition(world);
+}
+
+// --- 时间 (Time) ---
+
+/**
+ * 时间资源，由 `ecs.tick()` 每帧推进。单位: 秒。
+ * 对应 Bevy 的 `Res<Time>`。
+ */
+export class Time extends Resource {
+    /** 本帧经过缩放后的时间 (暂停时为 0)。`tick()` 运行 FixedUpdate 期间为固定步长。 */
+    public deltaTime = 0;
+    /** 自启动以来经过缩放后的累计时间。`tick()` 运行 FixedUpdate 期间为 `FixedTime.elapsedTime`。 */
+    public elapsedTime = 0;
+    /** 本帧未经缩放的真实时间 (已按 maxDelta 截断)。 */
+    public rawDeltaTime = 0;
+    /** 自启动以来的真实累计时间。 */
+    public rawElapsedTime = 0;
+    /** 已经过的帧数。 */
+    public frameCount = 0;
+    /** 时间缩放 (慢动作 / 快进)。 */
+    public timeScale = 1;
+    /** 是否暂停。暂停时 deltaTime 为 0，FixedUpdate 不运行。 */
+    public paused = false;
+    /** 单帧真实时间上限，避免断点调试或切后台后出现超大 delta。 */
+    public maxDelta = 0.25;
+
+    public pause(): void { this.paused = true; }
+    public resume(): void { this.paused = false; }
+
+    // --- 内部方法 ---
+    public _advance(realDelta: number): void {
+        this.rawDeltaTime = Math.min(Math.max(realDelta, 0), this.maxDelta);
+        this.rawElapsedTime += this.rawDeltaTime;
+        this.deltaTime = this.paused ? 0 : this.rawDeltaTime * this.timeScale;
+        this.elapsedTime += this.deltaTime;
+        this.frameCount++;
+    }
+}
+
+/**
+ * 固定时间步资源，控制 `ecs.tick()` 中 FixedUpdate 的运行次数。
+ * 对应 Bevy 的 `Res<Time<Fixed>>`。
+ */
+export class FixedTime extends Resource {
+    /** 累积的未消耗时间。 */
+    public accumulator = 0;
+    /** FixedUpdate 的累计时间。 */
+    public elapsedTime = 0;
+    /** 插值系数 (accumulator / step)，渲染时用于在两次物理步之间插值。 */
+    public alpha = 0;
+    /** 本帧运行的 FixedUpdate 次数。 */
+    public stepsThisFrame = 0;
+
+    /**
+     * @param step 固定步长 (秒)
+     * @param maxSteps 每帧最多追赶的步数，超出部分的积压时间会被丢弃
+     */
+    constructor(public step: number = 1 / 60, public maxSteps: number = 5) { super(); }
+}
+
+/**
+ * 时钟接口，为 `ecs.tick()` 提供当前时间 (秒)。
+ */
+export interface Clock {
+    now(): number;
+}
+
+/**
+ * 真实时钟，基于 `performance.now()` (不可用时使用 `Date.now()`)。
+ */
+export class RealClock implements Clock {
+    public now(): number {
+        return (typeof performance !== 'undefined' ? performance.now() : Date.now()) / 1000;
+    }
+}
+
+/**
+ * 虚拟时钟，只在手动调用 `advance` 时前进，用于测试中确定性地推进时间。
+ * @example
+ * const clock = new VirtualClock();
+ * ecs.setClock(clock);
+ * clock.advance(1 / 60);
+ * ecs.tick();
+ */
+export class VirtualClock implements Clock {
+    private time = 0;
+
+    public now(): number {
+        return this.time;
+    }
+
+    public advance(seconds: number): void {
+        this.time += seconds;
+    }
+}
+
+// --- 序列化 (Serialization) ---
+
+/**
+ * 序列化上下文，供自定义序列化函数使用。
+ */
+export interface SerializeContext {
+    /** 获取实体在存档中的 ID。 */
+    entityId(entity: Entity): number;
+    /** 按默认规则转换任意值 (实体引用、数组、普通对象、已注册类型)。 */
+    value(value: any): any;
+}
+
+/**
+ * 反序列化上下文，供自定义反序列化函数使用。
+ */
+export interface DeserializeContext {
+    /** 根据存档中的 ID 获取新创建的实体 (不存在时为 undefined)。 */
+    entity(id: number): Entity | undefined;
+    /** 按默认规则还原任意值。 */
+    value(data: any): any;
+}
+
+/**
+ * 类型注册选项。
+ */
+export interface TypeRegistrationOptions<T> {
+    /** 稳定的类型名称，写入存档。默认使用类名 (代码压缩后类名可能变化，建议显式指定)。 */
+    name?: string;
+    /** 是否为临时类型，序列化时跳过。也可以在类上声明 `static transient = true`。 */
+    transient?: boolean;
+    /** 自定义序列化。 */
+    serialize?(value: T, ctx: SerializeContext): any;
+    /** 自定义反序列化。 */
+    deserialize?(data: any, ctx: DeserializeContext): T;
+}
+
+/**
+ * 已注册的类型信息。
+ */
+export interface TypeRegistration<T = any> extends TypeRegistrationOptions<T> {
+    name: string;
+    type: ClassType<T>;
+}
+
+/**
+ * 类型注册表资源，为组件 / 资源类分配稳定名称和可选的自定义序列化函数。
+ * 只有注册过的类型才会被 `ecs.serialize()` 写入存档。
+ * 对应 Bevy 的 `AppTypeRegistry`。
+ */
+export class TypeRegistry extends Resource {
+    static rollback = false;
+
+    private byType = new Map<Function, TypeRegistration>();
+    private byName = new Map<string, TypeRegistration>();
+
+    /**
+     * 注册一个类型。名称冲突时抛出错误。
+     */
+    public register<T>(type: ClassType<T>, options: TypeRegistrationOptions<T> = {}): void {
+        const name = options.name ?? type.name;
+        const existing = this.byName.get(name);
+        if (existing && existing.type !== type) {
+            throw new Error(`Type name ${name} is already registered for another class!`);
+        }
+        const registration: TypeRegistration<T> = { ...options, name, type };
+        this.byType.set(type, registration);
+        this.byName.set(name, registration);
+    }
+
+    public getByType(type: Function): TypeRegistration | undefined {
+        return this.byType.get(type);
+    }
+
+    public getByName(name: string): TypeRegistration | undefined {
+        return this.byName.get(name);
+    }
+
+    /**
+     * 类型是否需要写入存档 (已注册且不是临时类型)。
+     */
+    public isSerializable(type: Function): boolean {
+        const registration = this.byType.get(type);
+        if (!registration) return false;
+        return !(registration.transient ?? (type as any).transient === true);
+    }
+}
+
+/**
+ * 存档格式版本。
+ */
+export const WORLD_FORMAT_VERSION = 1;
+
+/**
+ * 序列化后的类型实例。
+ */
+export interface SerializedValue {
+    type: string;
+    data: any;
+}
+
+/**
+ * 序列化后的 World (可直接 JSON.stringify)。
+ */
+export interface SerializedWorld {
+    version: number;
+    /** `children`: 子节点的存档 ID，按兄弟顺序排列 (`Children` 本身不写入存档) */
+    entities: { id: number, components: SerializedValue[], children?: number[] }[];
+    resources: SerializedValue[];
+}
+
+// 组件上由 ECS 维护、不写入存档的字段
+const INTERNAL_COMPONENT_FIELDS = new Set(['entity', '_addedTick', '_changedTick']);
+
+/**
+ * EntityCommands 提供了一种链式调用来构建实体的方法 (类似 Bevy)。
+ */
+export class EntityCommands {
+    /**
+     * @param commands (可选) 命令缓冲。提供时为延迟模式，结构性修改在同步点统一应用。
+     */
+    constructor(private ecs: ECS, private entity: Entity, private commands?: Commands) {}
+
+    /**
+     * 向实体添加组件或组件组 (Bundle)。
+     * 同一次调用给出的多个组件先全部写入，再补齐必需组件。
+     */
+    public insert(...items: BundleItem[]): EntityCommands {
+        if (this.commands) {
+            this.commands.insert(this.entity, ...items);
+        } else {
+            this.ecs.insertBundle(this.entity, ...items);
+        }
+        return this;
+    }
+
+    /**
+     * 从实体移除组件。
+     */
+    public remove(componentClass: Function): EntityCommands {
+        if (this.commands) {
+            this.commands.remove(this.entity, componentClass);
+        } else {
+            this.ecs.removeComponent(this.entity, componentClass);
+        }
+        return this;
+    }
+
+    /**
+     * 销毁实体 (在帧末统一移除)。
+     * @param children 子节点的处理方式，默认 `orphan`
+     */
+    public despawn(children: DespawnChildren = 'orphan'): void {
+        if (this.commands) {
+            this.commands.despawn(this.entity, children);
+        } else {
+            this.ecs.removeEntity(this.entity, children);
+        }
+    }
+
+    /**
+     * 为该实体添加一个观察者 (Observer)。
+     * 当指定类型的事件在该实体上被触发时 (通过 `ecs.trigger(event, entity)`)，回调会被执行。
+     * `{ capture: true }` 时在捕获阶段接收，`{ once: true }` 时只触发一次。
+     * 观察者立即注册 (延迟模式下也是)，返回的句柄可随时 `dispose()` 注销；实体销毁时自动注销。
+     */
+    public observe<T extends Event>(
+        eventClass: ClassType<T>, 
+        callback: (trigger: Trigger<T>) => void,
+        options?: ObserverOptions
+    ): Subscription {
+        return this.ecs.addEntityObserver(this.entity, eventClass, callback, options);
+    }
+
+    /**
+     * 触发一个事件到该实体 (延迟模式下在同步点触发)。
+     */
+    public trigger(event: Event): EntityCommands {
+        if (this.commands) {
+            this.commands.trigger(event, this.entity);
+        } else {
+            this.ecs.trigger(event, this.entity);
+        }
+        return this;
+    }
+
+    /**
+     * 获取实体 ID。
+     */
+    public id(): Entity {
+        return this.entity;
+    }
+
+    /**
+     * 添加子实体。
+     * 对应 Bevy 的 `with_children`。
+     */
+    public withChildren(spawnChildren: (parent: Entity) => void): EntityCommands {
+        spawnChildren(this.entity);
+        return this;
+    }
+}
+
+/**
+ * 命令 (Command)，在同步点对 World 执行的延迟操作。
+ */
+export type Command = (world: ECS) => void;
+
+/**
+ * 命令缓冲 (Commands)，记录结构性修改 (生成 / 插入 / 移除 / 销毁 / 资源)，在同步点统一应用。
+ * 同步点: 每个系统运行结束后、每个阶段结束后，或手动调用 `ecs.applyCommands()`。
+ * 这样在遍历 Query 时修改 World 不会改变正在迭代的实体集合，Hook 也不会在系统代码中途触发。
+ * 对应 Bevy 的 `Commands`。
+ */
+export class Commands {
+    private queue: Command[] = [];
+
+    constructor(private ecs: ECS) {}
+
+    /**
+     * 生成一个实体，组件在同步点插入。
+     * 返回延迟模式的 EntityCommands，可继续链式添加组件；实体 ID 立即预留，不会修改正在遍历的原型表。
+     */
+    public spawn(...items: BundleItem[]): EntityCommands {
+        const entity = this.ecs.reserveEntity();
+        if (items.length > 0) {
+            this.insert(entity, ...items);
+        }
+        return new EntityCommands(this.ecs, entity, this);
+    }
+
+    /**
+     * 获取已有实体的延迟模式 EntityCommands。
+     */
+    public entity(entity: Entity): EntityCommands {
+        return new EntityCommands(this.ecs, entity, this);
+    }
+
+    /**
+     * 向实体插入组件或组件组。
+     */
+    public insert(entity: Entity, ...items: BundleItem[]): void {
+        this.add(world => world.insertBundle(entity, ...items));
+    }
+
+    /**
+     * 从实体移除组件。
+     */
+    public remove(entity: Entity, componentClass: Function): void {
+        this.add(world => world.removeComponent(entity, componentClass));
+    }
+
+    /**
+     * 销毁实体。
+     * @param children 子节点的处理方式，默认 `orphan`
+     */
+    public despawn(entity: Entity, children: DespawnChildren = 'orphan'): void {
+        this.add(world => world.removeEntity(entity, children));
+    }
+
+    /**
+     * 递归销毁实体及其所有子节点。
+     */
+    public despawnRecursive(entity: Entity): void {
+        this.add(world => world.despawnRecursive(entity));
+    }
+
+    /**
+     * 插入全局资源。
+     */
+    public insertResource(resource: Resource): void {
+        this.add(world => world.insertResource(resource));
+    }
+
+    /**
+     * 移除全局资源。
+     */
+    public removeResource(resourceClass: Function): void {
+        this.add(world => world.removeResource(resourceClass));
+    }
+
+    /**
+     * 触发立即事件。
+     */
+    public trigger(event: Event, target?: Entity): void {
+        this.add(world => world.trigger(event, target));
+    }
+
+    /**
+     * 添加自定义命令。
+     * @example commands.add(world => world.getResource(Score)!.value += 10)
+     */
+    public add(command: Command): void {
+        this.queue.push(command);
+    }
+
+    /**
+     * 待应用的命令数量。
+     */
+    public get length(): number {
+        return this.queue.length;
+    }
+
+    /**
+     * 按记录顺序应用所有命令。应用过程中新记录的命令也会在本次一并应用。
+     * 某个命令抛出错误时，它与之前已应用的命令都会出队 (不会在下一个同步点重复执行)，之后的命令保留。
+     */
+    public apply(): void {
+        let applied = 0;
+        try {
+            while (applied < this.queue.length) {
+                this.queue[applied++](this.ecs);
+            }
+        } finally {
+            this.queue.splice(0, applied);
+        }
+    }
+}
+
+/**
+ * 插件 (Plugin) 接口，用于把一组系统、资源、Hook 和观察者打包成可复用的模块。
+ * 对应 Bevy 的 `Plugin` trait。
+ *
+ * @example
+ * class PhysicsPlugin implements Plugin {
+ *     build(world: ECS) {
+ *         world.insertResource(new Gravity());
+ *         world.addSystem(Stage.FixedUpdate, new PhysicsSystem());
+ *     }
+ * }
+ * ecs.addPlugin(new PhysicsPlugin());
+ */
+export interface Plugin {
+    /**
+     * (可选) 插件名称，用于重复注册检测与依赖声明。
+     * 默认使用类名。
+     */
+    readonly name?: string;
+
+    /**
+     * (可选) 依赖的插件 (类或名称)，必须在本插件之前添加。
+     */
+    readonly dependencies?: (ClassType<Plugin> | string)[];
+
+    /**
+     * 添加插件时立即调用，在这里注册系统、资源、Hook 与观察者。
+     */
+    build(world: ECS): void;
+
+    /**
+     * (可选) 所有插件 build 完成后调用 (在第一次 `startup()` 前)。
+     * 适合做依赖其他插件资源的初始化。
+     */
+    finish?(world: ECS): void;
+
+    /**
+     * (可选) 所有插件 finish 完成后调用，用于清理构建期的临时数据。
+     */
+    cleanup?(world: ECS): void;
+
+    /**
+     * (可选) 是否只允许添加一次，默认 true。
+     */
+    isUnique?(): boolean;
+}
+
+/**
+ * 获取插件名称: 优先使用 `name`，否则使用类名。
+ * 匿名对象字面量插件返回 undefined (不参与重复检测)。
+ */
+function pluginName(plugin: Plugin | ClassType<Plugin> | string): string | undefined {
+    if (typeof plugin === 'string') return plugin;
+    if (typeof plugin === 'function') return plugin.name;
+    if (plugin.name) return plugin.name;
+    return plugin.constructor !== Object ? plugin.constructor.name : undefined;
+}
+
+/**
+ * 插件组 (PluginGroup)，把多个插件按顺序打包，并允许禁用其中某些插件。
+ * 对应 Bevy 的 `PluginGroup` / `PluginGroupBuilder`。
+ *
+ * @example
+ * const DefaultPlugins = new PluginGroup('DefaultPlugins', [new InputPlugin(), new AudioPlugin()]);
+ * ecs.addPlugins(DefaultPlugins.disable(AudioPlugin));
+ */
+export class PluginGroup {
+    private plugins: Plugin[] = [];
+    private disabled = new Set<string>();
+
+    constructor(public name: string, plugins: (Plugin | PluginGroup)[] = []) {
+        for (const plugin of plugins) {
+            this.add(plugin);
+        }
+    }
+
+    /**
+     * 添加插件 (或嵌套插件组) 到组末尾。
+     */
+    public add(plugin: Plugin | PluginGroup): this {
+        if (plugin instanceof PluginGroup) {
+            this.plugins.push(...plugin.build());
+        } else {
+            this.plugins.push(plugin);
+        }
+        return this;
+    }
+
+    /**
+     * 禁用组内的某个插件。
+     */
+    public disable(plugin: ClassType<Plugin> | string): this {
+        this.disabled.add(pluginName(plugin)!);
+        return this;
+    }
+
+    /**
+     * 重新启用之前被禁用的插件。
+     */
+    public enable(plugin: ClassType<Plugin> | string): this {
+        this.disabled.delete(pluginName(plugin)!);
+        return this;
+    }
+
+    /**
+     * 获取启用的插件列表 (保持添加顺序)。
+     */
+    public build(): Plugin[] {
+        return this.plugins.filter(p => {
+            const name = pluginName(p);
+            return name === undefined || !this.disabled.has(name);
+        });
+    }
+}
+
+// --- 协程 (Coroutines) ---
+
+/**
+ * 协程可以 yield 的值:
+ * - `YieldInstruction`: 等待指令 (`waitSeconds`, `waitFrames`, `waitUntil` ...)
+ * - `Promise`: 等待 Promise 完成，resolve 的值作为 yield 表达式的结果，reject 会在协程内抛出
+ * - 另一个 `Coroutine` (生成器): 作为子协程运行，其返回值作为 yield 表达式的结果
+ * - `CoroutineHandle`: 等待另一个正在运行的协程结束
+ * - `null` / `undefined`: 等待一帧
+ */
+export type Yieldable = YieldInstruction | PromiseLike<any> | Coroutine | CoroutineHandle | null | undefined | void;
+
+/**
+ * 协程 (Coroutine)，即 `function*` 生成器。
+ * 对应 Unity 的 `IEnumerator` 协程 / Godot 的 `await`。
+ */
+export type Coroutine<R = any> = Generator<Yieldable, R, any>;
+
+/**
+ * 协程每帧推进时可用的上下文。
+ */
+export interface CoroutineContext {
+    world: ECS;
+    time: Time;
+    coroutines: Coroutines;
+}
+
+/**
+ * 等待指令基类。协程 yield 指令后被挂起，之后每帧调用 `poll` 直到返回 true。
+ * `poll` 不会在 yield 的同一帧调用，因此协程最早在下一帧恢复。
+ */
+export abstract class YieldInstruction {
+    /** 恢复协程时在协程内抛出的错误 (可选)。 */
+    public error?: unknown;
+    /** 是否以错误结束。错误值本身可能是 undefined (如 `Promise.reject()`)，因此单独记录。 */
+    public rejected = false;
+
+    /**
+     * 协程开始等待时调用。
+     */
+    public start(ctx: CoroutineContext): void {}
+
+    /**
+     * 每帧调用，返回 true 表示等待结束。
+     */
+    public abstract poll(ctx: CoroutineContext): boolean;
+
+    /**
+     * 等待结束后作为 yield 表达式结果传回协程的值。
+     */
+    public result(): any {
+        return undefined;
+    }
+
+    /**
+     * 等待结束或协程被取消时调用，用于释放监听等资源。
+     */
+    public dispose(ctx: CoroutineContext): void {}
+
+    /**
+     * 以错误结束等待，恢复协程时在协程内抛出 `error`。
+     */
+    protected reject(error: unknown): void {
+        this.error = error;
+        this.rejected = true;
+    }
+}
+
+/**
+ * 等待指定秒数 (默认使用缩放后的 `Time.deltaTime`，暂停时不计时)。
+ */
+export class WaitSeconds extends YieldInstruction {
+    private elapsed = 0;
+
+    constructor(public seconds: number, public unscaled = false) { super(); }
+
+    public poll(ctx: CoroutineContext): boolean {
+        this.elapsed += this.unscaled ? ctx.time.rawDeltaTime : ctx.time.deltaTime;
+        return this.elapsed >= this.seconds;
+    }
+}
+
+/**
+ * 等待指定帧数 (`waitFrames(1)` 即下一帧恢复)。
+ */
+export class WaitFrames extends YieldInstruction {
+    constructor(public frames: number) { super(); }
+
+    public poll(): boolean {
+        return --this.frames <= 0;
+    }
+}
+
+/**
+ * 等待条件成立。
+ */
+export class WaitUntil extends YieldInstruction {
+    constructor(public predicate: (world: ECS) => boolean) { super(); }
+
+    public poll(ctx: CoroutineContext): boolean {
+        return this.predicate(ctx.world);
+    }
+}
+
+/**
+ * 等待实体拥有 / 不再拥有某组件。
+ * 等待 `add` 时结果为该组件；实体被销毁时等待 `remove` 视为完成，等待 `add` 则在协程内抛出错误。
+ */
+export class WaitForComponent<T extends Component> extends YieldInstruction {
+    constructor(public entity: Entity, public type: ClassType<T>, public mode: 'add' | 'remove') { super(); }
+
+    public poll(): boolean {
+        if (this.mode === 'remove') {
+            return this.entity.isDestroyed() || !this.entity.has(this.type);
+        }
+        if (this.entity.isDestroyed()) {
+            this.reject(new Error(`Entity ${this.entity.id} was despawned while waiting for ${this.type.name}`));
+            return true;
+        }
+        return this.entity.has(this.type);
+    }
+
+    public result(): T | undefined {
+        return this.entity.get(this.type);
+    }
+}
+
+/**
+ * 等待一个缓冲事件 (通过 `ecs.pushEvent` 发送)。结果为开始等待之后第一个匹配的事件。
+ */
+export class WaitForEvent<T extends Event> extends YieldInstruction {
+    private event?: T;
+    private reader?: EventReader<T>;
+
+    constructor(public type: ClassType<T>, public filter?: (event: T) => boolean) { super(); }
+
+    public start(ctx: CoroutineContext): void {
+        this.reader = new EventReader(ctx.world, this.type);
+        this.reader.clear();
+    }
+
+    public poll(ctx: CoroutineContext): boolean {
+        for (const event of this.reader!.read()) {
+            if (!this.filter || this.filter(event)) {
+                this.event = event;
+                return true;
+            }
+        }
+        return false;
+    }
+
+    public result(): T | undefined {
+        return this.event;
+    }
+}
+
+/**
+ * 等待一个立即事件 (通过 `ecs.trigger` 触发)。结果为 `Trigger` 对象。
+ * 指定 `target` 时只匹配以该实体为目标的触发。
+ */
+export class WaitForTrigger<T extends Event> extends YieldInstruction {
+    private trigger?: Trigger<T>;
+
+    constructor(public type: ClassType<T>, public target?: Entity) { super(); }
+
+    public start(ctx: CoroutineContext): void {
+        ctx.coroutines._addTriggerWaiter(ctx.world, this);
+    }
+
+    public poll(): boolean {
+        return this.trigger !== undefined;
+    }
+
+    public result(): Trigger<T> | undefined {
+        return this.trigger;
+    }
+
+    public dispose(ctx: CoroutineContext): void {
+        ctx.coroutines._removeTriggerWaiter(this);
+    }
+
+    // --- 内部方法 ---
+    public _notify(trigger: Trigger<T>): void {
+        if (this.trigger) return;
+        if (this.target && trigger.entity !== this.target) return;
+        this.trigger = trigger;
+    }
+}
+
+/**
+ * 等待 Promise 完成。
+ */
+export class WaitForPromise<T> extends YieldInstruction {
+    private settled = false;
+    private value?: T;
+
+    constructor(promise: PromiseLike<T>) {
+        super();
+        promise.then(
+            value => { this.value = value; this.settled = true; },
+            error => { this.reject(error); this.settled = true; },
+        );
+    }
+
+    public poll(): boolean {
+        return this.settled;
+    }
+
+    public result(): T | undefined {
+        return this.value;
+    }
+}
+
+/**
+ * 等待另一个协程结束。结果为该协程的返回值。
+ */
+export class WaitForCoroutine extends YieldInstruction {
+    constructor(public handle: CoroutineHandle) { super(); }
+
+    public poll(): boolean {
+        if (this.handle.isRunning()) return false;
+        // 被等待的协程出错时，错误在等待方协程内重新抛出
+        if (this.handle.isFailed()) this.reject(this.handle.error);
+        return true;
+    }
+
+    public result(): any {
+        return this.handle.returnValue;
+    }
+}
+
+export function waitSeconds(seconds: number, unscaled = false): WaitSeconds {
+    return new WaitSeconds(seconds, unscaled);
+}
+
+export function waitFrames(frames: number = 1): WaitFrames {
+    return new WaitFrames(frames);
+}
+
+export function waitUntil(predicate: (world: ECS) => boolean): WaitUntil {
+    return new WaitUntil(predicate);
+}
+
+export function waitForComponentAdd<T extends Component>(entity: Entity, type: ClassType<T>): WaitForComponent<T> {
+    return new WaitForComponent(entity, type, 'add');
+}
+
+export function waitForComponentRemove<T extends Component>(entity: Entity, type: ClassType<T>): WaitForComponent<T> {
+    return new WaitForComponent(entity, type, 'remove');
+}
+
+export function waitForEvent<T extends Event>(type: ClassType<T>, filter?: (event: T) => boolean): WaitForEvent<T> {
+    return new WaitForEvent(type, filter);
+}
+
+export function waitForTrigger<T extends Event>(type: ClassType<T>, target?: Entity): WaitForTrigger<T> {
+    return new WaitForTrigger(type, target);
+}
+
+/**
+ * 判断值是否为生成器 (子协程)。
+ */
+function isCoroutine(value: any): value is Coroutine {
+    return value != null && typeof value.next === 'function' && typeof value.throw === 'function' && typeof value[Symbol.iterator] === 'function';
+}
+
+/**
+ * 把 yield 的值转换为等待指令。
+ */
+function toInstruction(value: Yieldable): YieldInstruction {
+    if (value instanceof YieldInstruction) return value;
+    if (value instanceof CoroutineHandle) return new WaitForCoroutine(value);
+    if (value != null && typeof (value as PromiseLike<any>).then === 'function') return new WaitForPromise(value as PromiseLike<any>);
+    if (value == null) return new WaitFrames(1);
+    throw new Error(`Cannot yield ${String(value)} from a coroutine`);
+}
+
+/**
+ * 协程句柄，用于查询状态或取消协程。
+ * 由 `Coroutines.start()` 或 `ScriptRunner.start()` 返回。
+ */
+export class CoroutineHandle {
+    /** 协程的返回值 (结束后可用)。 */
+    public returnValue: any;
+    /** 导致协程结束的未捕获错误 (`isFailed()` 时可用)。 */
+    public error: unknown;
+
+    private stack: Coroutine[];
+    private waiting?: YieldInstruction;
+    private ctx?: CoroutineContext;
+    private state: 'running' | 'done' | 'cancelled' = 'running';
+    private failed = false;
+    // 生成器正在执行 (位于 next/throw 调用内)
+    private executing = false;
+
+    constructor(coroutine: Coroutine, public readonly owner?: ScriptRunner) {
+        this.stack = [coroutine];
+    }
+
+    public isRunning(): boolean {
+        return this.state === 'running';
+    }
+
+    public isDone(): boolean {
+        return this.state === 'done';
+    }
+
+    public isCancelled(): boolean {
+        return this.state === 'cancelled';
+    }
+
+    /**
+     * 协程是否因未捕获的错误而结束 (此时 `isDone()` 也为 true)。
+     */
+    public isFailed(): boolean {
+        return this.failed;
+    }
+
+    /**
+     * 取消协程。按由内到外的顺序对每层生成器调用 `return()`，`finally` 块会被执行。
+     * 协程在运行中取消自身 (如移除自己的 `ScriptRunner` 或调用 `stopAll()`) 时，
+     * 立即标记为已取消，`return()` 推迟到它执行到下一个 yield 之后。
+     */
+    public cancel(): void {
+        if (this.state !== 'running') return;
+        this.state = 'cancelled';
+        if (this.waiting && this.ctx) this.waiting.dispose(this.ctx);
+        this.waiting = undefined;
+        // 正在执行的生成器不能调用 return()
+        if (this.executing) return;
+        this.unwind();
+    }
+
+    // --- 内部方法 ---
+
+    /**
+     * 以错误结束协程: 释放等待指令，并对仍在栈上的生成器调用 `return()` 以执行 `finally` 块。
+     */
+    public _fail(error: unknown): void {
+        if (this.state !== 'running') return;
+        this.state = 'done';
+        this.failed = true;
+        this.error = error;
+        const waiting = this.waiting;
+        this.waiting = undefined;
+        try {
+            if (waiting && this.ctx) waiting.dispose(this.ctx);
+        } finally {
+            this.unwind();
+        }
+    }
+
+    /**
+     * 每帧推进一次: 等待中则轮询指令，等待结束后运行协程直到下一个 yield。
+     * 未捕获的错误会抛出，由 `Coroutines` 调用 `_fail` 并报告。
+     */
+    public _update(ctx: CoroutineContext): void {
+        if (this.state !== 'running') return;
+        this.ctx = ctx;
+        if (this.owner && !this.owner._isAttached()) {
+            this.cancel();
+            return;
+        }
+
+        let sent: any = undefined;
+        let error: unknown = undefined;
+        let hasError = false;
+        if (this.waiting) {
+            const waiting = this.waiting;
+            if (!waiting.poll(ctx)) return;
+            this.waiting = undefined;
+            waiting.dispose(ctx);
+            if (waiting.rejected || waiting.error !== undefined) {
+                error = waiting.error;
+                hasError = true;
+            } else {
+                sent = waiting.result();
+            }
+        }
+
+        while (this.stack.length > 0) {
+            const top = this.stack[this.stack.length - 1];
+            let step: IteratorResult<Yieldable, any>;
+            this.executing = true;
+            try {
+                step = hasError ? top.throw(error) : top.next(sent);
+            } catch (e) {
+                // 错误向外层生成器传播，最外层仍未处理 (或协程已取消自身) 则抛出
+                this.stack.pop();
+                if (this.stack.length === 0 || this.isCancelled()) {
+                    this.unwind();
+                    throw e;
+                }
+                error = e;
+                hasError = true;
+                continue;
+            } finally {
+                this.executing = false;
+            }
+            hasError = false;
+            error = undefined;
+
+            if (this.isCancelled()) {
+                // 协程在本次执行中取消了自身: 生成器已暂停，此时再结束整个栈
+                this.unwind();
+                return;
+            }
+
+            if (step.done) {
+                this.stack.pop();
+                sent = step.value;
+                continue;
+            }
+            if (isCoroutine(step.value)) {
+                this.stack.push(step.value);
+                sent = undefined;
+                continue;
+            }
+            this.waiting = toInstruction(step.value);
+            this.waiting.start(ctx);
+            // 同步触发的 trigger 等可能已在 start 中完成，仍然在下一帧恢复
+            return;
+        }
+
+        this.state = 'done';
+        this.returnValue = sent;
+    }
+
+    /**
+     * 由内到外对栈上的生成器调用 `return()`，执行它们的 `finally` 块。
+     */
+    private unwind(): void {
+        try {
+            while (this.stack.length > 0) {
+                this.stack.pop()!.return(undefined);
+            }
+        } finally {
+            this.stack.length = 0;
+        }
+    }
+}
+
+/**
+ * 协程因未捕获的错误而结束时发送的缓冲事件。
+ */
+export class CoroutineFailed extends Event {
+    /**
+     * @param entity 协程所属的实体 (全局协程为 undefined)
+     */
+    constructor(public handle: CoroutineHandle, public error: unknown, public entity?: Entity) { super(); }
+}
+
+/**
+ * 协程调度器资源，推进所有运行中的协程 (包括 `ScriptRunner` 组件启动的协程)。
+ * 也可以直接用它启动不属于任何实体的全局协程。
+ * 由 `CoroutinePlugin` 插入。
+ *
+ * @example
+ * ecs.getResource(Coroutines)!.start(function* () {
+ *     yield waitSeconds(3);
+ *     ecs.pushEvent(new WaveStartEvent());
+ * }());
+ */
+export class Coroutines extends Resource {
+    /**
+     * (可选) 协程出错时的回调。未设置时用 `console.error` 输出。
+     * 无论是否设置，都会发送 `CoroutineFailed` 事件。
+     */
+    public onError?: (error: unknown, handle: CoroutineHandle) => void;
+
+    private handles: CoroutineHandle[] = [];
+    private triggerWaiters = new Map<Function, { waiters: Set<WaitForTrigger<any>>, subscription: Subscription }>();
+
+    /**
+     * 启动一个全局协程，在下一次协程系统运行时执行到第一个 yield。
+     */
+    public start(coroutine: Coroutine): CoroutineHandle {
+        const handle = new CoroutineHandle(coroutine);
+        this.handles.push(handle);
+        return handle;
+    }
+
+    /**
+     * 取消所有协程 (包括实体上的协程)。
+     */
+    public stopAll(): void {
+        for (const handle of this.handles) {
+            handle.cancel();
+        }
+        this.handles.length = 0;
+    }
+
+    /**
+     * 运行中的协程数量。
+     */
+    public get count(): number {
+        return this.handles.filter(h => h.isRunning()).length;
+    }
+
+    // --- 内部方法 ---
+
+    public _adopt(handle: CoroutineHandle): void {
+        this.handles.push(handle);
+    }
+
+    public _update(world: ECS): void {
+        const ctx = this.context(world);
+        // 本帧新启动的协程在下一帧才推进
+        const handles = this.handles.slice();
+        for (const handle of handles) {
+            try {
+                handle._update(ctx);
+            } catch (error) {
+                // 一个协程出错不影响本帧的其他协程与系统
+                this.fail(world, handle, error);
+            }
+        }
+        this.handles = this.handles.filter(h => h.isRunning());
+    }
+
+    public _addTriggerWaiter(world: ECS, waiter: WaitForTrigger<any>): void {
+        let entry = this.triggerWaiters.get(waiter.type);
+        if (!entry) {
+            // 每种事件只注册一个观察者，由它分发给等待中的协程；没有等待者时注销
+            const waiters = new Set<WaitForTrigger<any>>();
+            const subscription = world.addObserver(waiter.type, (trigger) => {
+                for (const w of [...waiters]) w._notify(trigger);
+            });
+            entry = { waiters, subscription };
+            this.triggerWaiters.set(waiter.type, entry);
+        }
+        entry.waiters.add(waiter);
+    }
+
+    public _removeTriggerWaiter(waiter: WaitForTrigger<any>): void {
+        const entry = this.triggerWaiters.get(waiter.type);
+        if (!entry) return;
+        entry.waiters.delete(waiter);
+        if (entry.waiters.size === 0) {
+            entry.subscription.dispose();
+            this.triggerWaiters.delete(waiter.type);
+        }
+    }
+
+    private fail(world: ECS, handle: CoroutineHandle, error: unknown): void {
+        try {
+            handle._fail(error);
+        } finally {
+            world.pushEvent(new CoroutineFailed(handle, error, handle.owner?.entity));
+            if (this.onError) {
+                this.onError(error, handle);
+            } else {
+                console.error('Uncaught error in coroutine', error);
+            }
+        }
+    }
+
+    private context(world: ECS): CoroutineContext {
+        return { world, time: world.getResource(Time)!, coroutines: this };
+    }
+}
+
+/**
+ * 脚本运行器组件，在实体上运行一个或多个协程。
+ * 组件被移除、被同类组件替换或实体被销毁时，其上的协程会被自动取消。
+ * 需要 `CoroutinePlugin`。
+ *
+ * @example
+ * function* blink(entity: Entity) {
+ *     const sprite = entity.get(Sprite)!;
+ *     for (let i = 0; i < 3; i++) {
+ *         sprite.visible = false;
+ *         yield waitSeconds(0.1);
+ *         sprite.visible = true;
+ *         yield waitSeconds(0.1);
+ *     }
+ * }
+ * entity.add(new ScriptRunner(blink(entity)));
+ */
+export class ScriptRunner extends Component {
+    public readonly handles: CoroutineHandle[] = [];
+    private pending: CoroutineHandle[] = [];
+
+    constructor(...coroutines: Coroutine[]) {
+        super();
+        for (const coroutine of coroutines) {
+            this.start(coroutine);
+        }
+    }
+
+    /**
+     * 在该实体上启动一个协程，在下一次协程系统运行时执行到第一个 yield。
+     */
+    public start(coroutine: Coroutine): CoroutineHandle {
+        const handle = new CoroutineHandle(coroutine, this);
+        this.handles.push(handle);
+        this.pending.push(handle);
+        return handle;
+    }
+
+    /**
+     * 取消该实体上的所有协程。
+     */
+    public stopAll(): void {
+        for (const handle of this.handles) {
+            handle.cancel();
+        }
+        this.pending.length = 0;
+    }
+
+    /**
+     * 是否还有运行中的协程。
+     */
+    public isRunning(): boolean {
+        return this.handles.some(h => h.isRunning());
+    }
+
+    // --- 内部方法 ---
+
+    public _isAttached(): boolean {
+        return this.entity !== undefined && !this.entity.isDestroyed() && this.entity.get(ScriptRunner) === this;
+    }
+
+    public _flush(coroutines: Coroutines): void {
+        for (const handle of this.pending) {
+            coroutines._adopt(handle);
+        }
+        this.pending.length = 0;
+        // 丢弃已结束的句柄，避免长期运行的实体无限增长
+        for (let i = this.handles.length - 1; i >= 0; i--) {
+            if (!this.handles[i].isRunning()) this.handles.splice(i, 1);
+        }
+    }
+}
+
+/**
+ * 协程系统所在的系统集合 (Update 阶段)，可用于声明其他系统与协程的先后顺序。
+ * 各 World 共用，配置运行条件或顺序请使用 `ecs.configureSet(CoroutineSystems)`。
+ */
+export const CoroutineSystems = new SystemSet('Coroutines', true);
+
+/**
+ * 协程插件: 插入 `Coroutines` 资源，并在 Update 阶段推进所有协程。
+ */
+export class CoroutinePlugin implements Plugin {
+    public build(world: ECS): void {
+        world.insertResource(new Coroutines());
+        world.addSystem(Stage.Update, [query(ScriptRunner), res(Coroutines)],
+            function runCoroutines(runners: Query<[ScriptRunner]>, coroutines: Coroutines) {
+                for (const [runner] of runners) {
+                    runner._flush(coroutines);
+                }
+                coroutines._update(world);
+            }
+        ).inSet(CoroutineSystems);
+        // 组件被移除时立即取消
+        world.addDestroySystem(ScriptRunner, (_entity, runner) => runner.stopAll());
+    }
+}
+
+// --- 补间动画 (Tweens) ---
+
+/**
+ * 缓动函数，输入与输出都是 [0, 1] 上的进度 (back / elastic 会短暂越界)。
+ */
+export type EasingFunction = (t: number) => number;
+
+const BACK_C1 = 1.70158;
+const BACK_C2 = BACK_C1 * 1.525;
+const BACK_C3 = BACK_C1 + 1;
+const ELASTIC_C4 = (2 * Math.PI) / 3;
+const ELASTIC_C5 = (2 * Math.PI) / 4.5;
+
+function bounceOut(t: number): number {
+    const n1 = 7.5625;
+    const d1 = 2.75;
+    if (t < 1 / d1) return n1 * t * t;
+    if (t < 2 / d1) return n1 * (t -= 1.5 / d1) * t + 0.75;
+    if (t < 2.5 / d1) return n1 * (t -= 2.25 / d1) * t + 0.9375;
+    return n1 * (t -= 2.625 / d1) * t + 0.984375;
+}
+
+/**
+ * 标准缓动函数集 (Robert Penner)。
+ * 对应 Bevy 的 `EaseFunction` / Godot 的 `Tween.TransitionType`。
+ */
+export const Easing = {
+    linear: (t: number) => t,
+
+    quadIn: (t: number) => t * t,
+    quadOut: (t: number) => 1 - (1 - t) * (1 - t),
+    quadInOut: (t: number) => t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2,
+
+    cubicIn: (t: number) => t * t * t,
+    cubicOut: (t: number) => 1 - Math.pow(1 - t, 3),
+    cubicInOut: (t: number) => t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2,
+
+    quartIn: (t: number) => t * t * t * t,
+    quartOut: (t: number) => 1 - Math.pow(1 - t, 4),
+    quartInOut: (t: number) => t < 0.5 ? 8 * t * t * t * t : 1 - Math.pow(-2 * t + 2, 4) / 2,
+
+    quintIn: (t: number) => t * t * t * t * t,
+    quintOut: (t: number) => 1 - Math.pow(1 - t, 5),
+    quintInOut: (t: number) => t < 0.5 ? 16 * t * t * t * t * t : 1 - Math.pow(-2 * t + 2, 5) / 2,
+
+    sineIn: (t: number) => 1 - Math.cos((t * Math.PI) / 2),
+    sineOut: (t: number) => Math.sin((t * Math.PI) / 2),
+    sineInOut: (t: number) => -(Math.cos(Math.PI * t) - 1) / 2,
+
+    expoIn: (t: number) => t === 0 ? 0 : Math.pow(2, 10 * t - 10),
+    expoOut: (t: number) => t === 1 ? 1 : 1 - Math.pow(2, -10 * t),
+    expoInOut: (t: number) => t === 0 ? 0 : t === 1 ? 1
+        : t < 0.5 ? Math.pow(2, 20 * t - 10) / 2 : (2 - Math.pow(2, -20 * t + 10)) / 2,
+
+    circIn: (t: number) => 1 - Math.sqrt(1 - t * t),
+    circOut: (t: number) => Math.sqrt(1 - Math.pow(t - 1, 2)),
+    circInOut: (t: number) => t < 0.5
+        ? (1 - Math.sqrt(1 - Math.pow(2 * t, 2))) / 2
+        : (Math.sqrt(1 - Math.pow(-2 * t + 2, 2)) + 1) / 2,
+
+    backIn: (t: number) => BACK_C3 * t * t * t - BACK_C1 * t * t,
+    backOut: (t: number) => 1 + BACK_C3 * Math.pow(t - 1, 3) + BACK_C1 * Math.pow(t - 1, 2),
+    backInOut: (t: number) => t < 0.5
+        ? (Math.pow(2 * t, 2) * ((BACK_C2 + 1) * 2 * t - BACK_C2)) / 2
+        : (Math.pow(2 * t - 2, 2) * ((BACK_C2 + 1) * (t * 2 - 2) + BACK_C2) + 2) / 2,
+
+    elasticIn: (t: number) => t === 0 ? 0 : t === 1 ? 1
+        : -Math.pow(2, 10 * t - 10) * Math.sin((t * 10 - 10.75) * ELASTIC_C4),
+    elasticOut: (t: number) => t === 0 ? 0 : t === 1 ? 1
+        : Math.pow(2, -10 * t) * Math.sin((t * 10 - 0.75) * ELASTIC_C4) + 1,
+    elasticInOut: (t: number) => t === 0 ? 0 : t === 1 ? 1 : t < 0.5
+        ? -(Math.pow(2, 20 * t - 10) * Math.sin((20 * t - 11.125) * ELASTIC_C5)) / 2
+        : (Math.pow(2, -20 * t + 10) * Math.sin((20 * t - 11.125) * ELASTIC_C5)) / 2 + 1,
+
+    bounceIn: (t: number) => 1 - bounceOut(1 - t),
+    bounceOut,
+    bounceInOut: (t: number) => t < 0.5 ? (1 - bounceOut(1 - 2 * t)) / 2 : (1 + bounceOut(2 * t - 1)) / 2,
+} satisfies Record<string, EasingFunction>;
+
+/**
+ * 可补间对象的基类 (单个补间、序列、并行组)，支持延迟、重复与往返 (yoyo)。
+ *
+ * 补间按"定位"方式求值: 每帧给出上一帧与本帧的本地时间，补间把自己放到本帧时间对应的状态。
+ * 因此序列、并行和往返可以任意嵌套。
+ * 补间对象是有状态的 (会记录起始值)，同一个对象不要同时用于多个实体。
+ */
+export abstract class Tweenable {
+    public delaySeconds = 0;
+    public repeatCount = 1;
+    public yoyoEnabled = false;
+
+    /**
+     * 单次播放的时长 (秒)。
+     */
+    public abstract get duration(): number;
+
+    /**
+     * 包含延迟与重复的总时长，无限重复时为 Infinity。
+     */
+    public get totalDuration(): number {
+        return this.delaySeconds + (this.repeatCount > 0 ? this.duration * this.repeatCount : 0);
+    }
+
+    /**
+     * 开始前等待的秒数。
+     */
+    public delay(seconds: number): this {
+        this.delaySeconds = seconds;
+        return this;
+    }
+
+    /**
+     * 播放次数 (默认无限)。
+     */
+    public repeat(count: number = Infinity): this {
+        this.repeatCount = count;
+        return this;
+    }
+
+    /**
+     * 往返播放: 偶数次正向，奇数次反向。通常与 `repeat` 一起使用。
+     */
+    public yoyo(enabled = true): this {
+        this.yoyoEnabled = enabled;
+        return this;
+    }
+
+    // --- 内部方法 ---
+
+    /**
+     * 把时间从 prev 推进到 time (相对于本对象开始的时间，可为负数或超出总时长)。
+     */
+    public _seek(entity: Entity, prev: number, time: number): void {
+        const local = this.toLocal(time);
+        let localPrev = this.toLocal(prev);
+        // 跨越了重复边界: 从本次重复的起点开始计算
+        if (this.iteration(prev) !== this.iteration(time)) {
+            localPrev = this.isReversed(this.iteration(time)) ? this.duration : 0;
+        }
+        this._seekLocal(entity, localPrev, local);
+    }
+
+    /**
+     * 清除运行时状态 (重新播放前调用)。
+     */
+    public _reset(): void {}
+
+    protected abstract _seekLocal(entity: Entity, prev: number, time: number): void;
+
+    private iteration(time: number): number {
+        const local = time - this.delaySeconds;
+        const duration = this.duration;
+        if (local < 0 || duration <= 0) return 0;
+        return Math.min(Math.floor(local / duration), this.repeatCount - 1);
+    }
+
+    private isReversed(iteration: number): boolean {
+        return this.yoyoEnabled && iteration % 2 === 1;
+    }
+
+    /**
+     * 把外部时间映射为单次播放内的本地时间。超出范围的时间原样保留 (不截断)，
+     * 这样子对象可以判断自己是否刚好越过终点。
+     */
+    private toLocal(time: number): number {
+        const local = time - this.delaySeconds;
+        const duration = this.duration;
+        if (local < 0 || duration <= 0) return local;
+        const iteration = this.iteration(time);
+        const offset = local - iteration * duration;
+        return this.isReversed(iteration) ? duration - offset : offset;
+    }
+}
+
+/**
+ * 补间目标: 组件上的属性路径 (如 `'x'`、`'offset.y'`)，或读写函数。
+ */
+export type TweenTarget<T extends Component> = string | {
+    get: (component: T) => number;
+    set: (component: T, value: number) => void;
+};
+
+/**
+ * 单个补间的参数。
+ */
+export interface TweenOptions {
+    /** 目标值。 */
+    to: number;
+    /** 时长 (秒)。 */
+    duration: number;
+    /** 起始值，省略时在补间开始时读取当前值。 */
+    from?: number;
+    /** 缓动函数，默认 `Easing.linear`。 */
+    easing?: EasingFunction;
+}
+
+/**
+ * 补间 (Tween)，在一段时间内把组件的一个数值字段从起始值过渡到目标值。
+ * 修改会通过 `markChanged` 标记，`Changed<T>` 过滤器可以检测到。
+ * 对应 bevy_tweening 的 `Tween` / Godot 的 `tween_property`。
+ */
+export class Tween<T extends Component = Component> extends Tweenable {
+    private start?: number;
+
+    constructor(public type: ClassType<T>, public target: TweenTarget<T>, public options: TweenOptions) { super(); }
+
+    public get duration(): number {
+        return this.options.duration;
+    }
+
+    public _reset(): void {
+        this.start = undefined;
+    }
+
+    protected _seekLocal(entity: Entity, prev: number, time: number): void {
+        const duration = this.duration;
+        // 只在活动区间内 (或刚好越过边界时) 写入
+        if ((prev < 0 && time < 0) || (prev > duration && time > duration)) return;
+        const component = entity.get(this.type);
+        if (!component) return;
+
+        if (this.start === undefined) {
+            this.start = this.options.from ?? this.read(component);
+        }
+        const t = duration > 0 ? Math.min(Math.max(time / duration, 0), 1) : 1;
+        const easing = this.options.easing ?? Easing.linear;
+        this.write(component, this.start + (this.options.to - this.start) * easing(t));
+        component.markChanged();
+    }
+
+    private read(component: T): number {
+        if (typeof this.target !== 'string') return this.target.get(component);
+        let value: any = component;
+        for (const key of this.target.split('.')) value = value[key];
+        return value;
+    }
+
+    private write(component: T, value: number): void {
+        if (typeof this.target !== 'string') {
+            this.target.set(component, value);
+            return;
+        }
+        const keys = this.target.split('.');
+        let object: any = component;
+        for (let i = 0; i < keys.length - 1; i++) object = object[keys[i]];
+        object[keys[keys.length - 1]] = value;
+    }
+}
+
+/**
+ * 序列 (Sequence)，依次播放子补间。
+ */
+export class Sequence extends Tweenable {
+    constructor(public children: Tweenable[]) { super(); }
+
+    public get duration(): number {
+        return this.children.reduce((sum, child) => sum + child.totalDuration, 0);
+    }
+
+    public _reset(): void {
+        for (const child of this.children) child._reset();
+    }
+
+    protected _seekLocal(entity: Entity, prev: number, time: number): void {
+        let offset = 0;
+        for (const child of this.children) {
+            child._seek(entity, prev - offset, time - offset);
+            offset += child.totalDuration;
+        }
+    }
+}
+
+/**
+ * 并行组 (Parallel)，同时播放子补间，时长为最长的子补间。
+ */
+export class Parallel extends Tweenable {
+    constructor(public children: Tweenable[]) { super(); }
+
+    public get duration(): number {
+        return this.children.reduce((max, child) => Math.max(max, child.totalDuration), 0);
+    }
+
+    public _reset(): void {
+        for (const child of this.children) child._reset();
+    }
+
+    protected _seekLocal(entity: Entity, prev: number, time: number): void {
+        for (const child of this.children) {
+            child._seek(entity, prev, time);
+        }
+    }
+}
+
+/**
+ * 空白等待，用于在序列中插入停顿。
+ */
+export class Delay extends Tweenable {
+    constructor(private seconds: number) { super(); }
+
+    public get duration(): number {
+        return this.seconds;
+    }
+
+    protected _seekLocal(): void {}
+}
+
+/**
+ * 创建补间。
+ * @example tween(Position, 'x', { to: 100, duration: 0.5, easing: Easing.quadOut })
+ */
+export function tween<T extends Component>(type: ClassType<T>, target: TweenTarget<T>, options: TweenOptions): Tween<T> {
+    return new Tween(type, target, options);
+}
+
+export function sequence(...children: Tweenable[]): Sequence {
+    return new Sequence(children);
+}
+
+export function parallel(...children: Tweenable[]): Parallel {
+    return new Parallel(children);
+}
+
+export function delay(seconds: number): Delay {
+    return new Delay(seconds);
+}
+
+/**
+ * 补间完成事件。
+ * 同时以立即事件 (在实体上 `trigger`，会冒泡) 和缓冲事件 (`pushEvent`) 两种方式发送。
+ */
+export class TweenCompleted extends Event {
+    constructor(public entity: Entity, public name?: string) { super(); }
+}
+
+/**
+ * 一次补间播放的状态。
+ */
+export class TweenPlayback {
+    /** 已播放的时间 (秒)。 */
+    public elapsed = 0;
+    /** 播放速度倍率。 */
+    public speed = 1;
+    public paused = false;
+    public finished = false;
+    private prev = -Infinity;
+
+    constructor(public tweenable: Tweenable, public name?: string) {}
+
+    // --- 内部方法 ---
+    public _advance(entity: Entity, delta: number): void {
+        if (this.paused || this.finished) return;
+        this.elapsed += delta * this.speed;
+        this.tweenable._seek(entity, this.prev, this.elapsed);
+        this.prev = this.elapsed;
+        this.finished = this.elapsed >= this.tweenable.totalDuration;
+    }
+}
+
+/**
+ * 动画器组件，在实体上播放一个或多个补间。需要 `TweenPlugin`。
+ * 补间结束后自动从动画器中移除，并发送 `TweenCompleted`。
+ *
+ * @example
+ * button.add(new Animator(
+ *     sequence(
+ *         tween(Style, 'scale', { to: 1.2, duration: 0.2, easing: Easing.backOut }),
+ *         tween(Style, 'scale', { to: 1.0, duration: 0.1 }),
+ *     ),
+ *     'press',
+ * ));
+ */
+export class Animator extends Component {
+    public readonly playing: TweenPlayback[] = [];
+
+    constructor(tweenable?: Tweenable, name?: string) {
+        super();
+        if (tweenable) this.play(tweenable, name);
+    }
+
+    /**
+     * 开始播放补间。名称用于 `stop` / `isPlaying` 以及 `TweenCompleted.name`。
+     */
+    public play(tweenable: Tweenable, name?: string): TweenPlayback {
+        tweenable._reset();
+        const playback = new TweenPlayback(tweenable, name);
+        this.playing.push(playback);
+        return playback;
+    }
+
+    /**
+     * 停止补间 (不发送完成事件)。省略名称时停止全部。字段保持当前值。
+     */
+    public stop(name?: string): void {
+        for (let i = this.playing.length - 1; i >= 0; i--) {
+            if (name === undefined || this.playing[i].name === name) this.playing.splice(i, 1);
+        }
+    }
+
+    /**
+     * 是否有 (指定名称的) 补间正在播放。
+     */
+    public isPlaying(name?: string): boolean {
+        return this.playing.some(p => name === undefined || p.name === name);
+    }
+}
+
+/**
+ * 补间系统所在的系统集合 (Update 阶段)。
+ * 各 World 共用，配置运行条件或顺序请使用 `ecs.configureSet(TweenSystems)`。
+ */
+export const TweenSystems = new SystemSet('Tweens', true);
+
+/**
+ * 补间插件: 在 Update 阶段按 `Time.deltaTime` 推进所有 `Animator`。
+ */
+export class TweenPlugin implements Plugin {
+    public build(world: ECS): void {
+        world.addSystem(Stage.Update, [query(Animator), res(Time)],
+            function animateTweens(animators: Query<[Animator]>, time: Time) {
+                const completed: TweenCompleted[] = [];
+                for (const [animator] of animators) {
+                    const entity = animator.entity;
+                    for (const playback of [...animator.playing]) {
+                        playback._advance(entity, time.deltaTime);
+                        if (playback.finished) {
+                            animator.playing.splice(animator.playing.indexOf(playback), 1);
+                            completed.push(new TweenCompleted(entity, playback.name));
+                        }
+                    }
+                }
+                // 遍历结束后再通知，观察者可以安全地启动新的补间
+                for (const event of completed) {
+                    world.trigger(event, event.entity);
+                    world.pushEvent(event);
+                }
+            }
+        ).inSet(TweenSystems);
+    }
+}
+
+// --- 变换 (Transform) ---
+
+/**
+ * 二维向量 / 点。
+ */
+export interface Vec2 {
+    x: number;
+    y: number;
+}
+
+/**
+ * 二维仿射矩阵:
+ * ```
+ * | a  c  tx |
+ * | b  d  ty |
+ * ```
+ * 对应 Bevy (glam) 的 `Affine2`。
+ */
+export class Affine2 {
+    constructor(
+        public a = 1, public b = 0,
+        public c = 0, public d = 1,
+        public tx = 0, public ty = 0
+    ) {}
+
+    /**
+     * 由平移、旋转 (弧度) 与缩放构造: 先缩放，再旋转，最后平移。
+     */
+    public static fromTransform(x: number, y: number, rotation: number, scaleX: number, scaleY: number): Affine2 {
+        const cos = Math.cos(rotation);
+        const sin = Math.sin(rotation);
+        return new Affine2(cos * scaleX, sin * scaleX, -sin * scaleY, cos * scaleY, x, y);
+    }
+
+    /**
+     * 矩阵乘法 `this * other`: 先应用 `other`，再应用 `this`。
+     */
+    public multiply(other: Affine2): Affine2 {
+        return new Affine2(
+            this.a * other.a + this.c * other.b,
+            this.b * other.a + this.d * other.b,
+            this.a * other.c + this.c * other.d,
+            this.b * other.c + this.d * other.d,
+            this.a * other.tx + this.c * other.ty + this.tx,
+            this.b * other.tx + this.d * other.ty + this.ty
+        );
+    }
+
+    /**
+     * 逆矩阵。不可逆 (缩放为 0) 时抛出错误。
+     */
+    public inverse(): Affine2 {
+        const det = this.a * this.d - this.b * this.c;
+        if (det === 0) {
+            throw new Error(`Affine2 is not invertible`);
+        }
+        return new Affine2(
+            this.d / det, -this.b / det,
+            -this.c / det, this.a / det,
+            (this.c * this.ty - this.d * this.tx) / det,
+            (this.b * this.tx - this.a * this.ty) / det
+        );
+    }
+
+    /**
+     * 变换一个点。
+     */
+    public transformPoint(point: Vec2): Vec2 {
+        return {
+            x: this.a * point.x + this.c * point.y + this.tx,
+            y: this.b * point.x + this.d * point.y + this.ty,
+        };
+    }
+
+    /**
+     * 变换一个方向向量 (忽略平移)。
+     */
+    public transformVector(vector: Vec2): Vec2 {
+        return {
+            x: this.a * vector.x + this.c * vector.y,
+            y: this.b * vector.x + this.d * vector.y,
+        };
+    }
+
+    /**
+     * 分解为平移、旋转与缩放 (切变会丢失；镜像体现为负的 scaleY)。
+     */
+    public decompose(): { x: number, y: number, rotation: number, scaleX: number, scaleY: number } {
+        const scaleX = Math.hypot(this.a, this.b);
+        if (scaleX === 0) {
+            return { x: this.tx, y: this.ty, rotation: 0, scaleX: 0, scaleY: Math.hypot(this.c, this.d) };
+        }
+        return {
+            x: this.tx,
+            y: this.ty,
+            rotation: Math.atan2(this.b, this.a),
+            scaleX,
+            scaleY: (this.a * this.d - this.b * this.c) / scaleX,
+        };
+    }
+}
+
+/**
+ * 世界变换 (由传播系统根据 Transform 与父节点计算，不要手动修改)。
+ * 对应 Bevy 的 `GlobalTransform`。
+ */
+export class GlobalTransform extends Component {
+    constructor(public matrix = new Affine2()) { super(); }
+
+    public get x(): number { return this.matrix.tx; }
+    public get y(): number { return this.matrix.ty; }
+    public get rotation(): number { return this.matrix.decompose().rotation; }
+
+    /**
+     * 把局部坐标的点变换到世界坐标。
+     */
+    public transformPoint(point: Vec2): Vec2 {
+        return this.matrix.transformPoint(point);
+    }
+
+    /**
+     * 把世界坐标的点变换到局部坐标。
+     */
+    public inverseTransformPoint(point: Vec2): Vec2 {
+        return this.matrix.inverse().transformPoint(point);
+    }
+
+    /**
+     * 转换为等价的 Transform (作为根节点时)。
+     */
+    public toTransform(): Transform {
+        return Transform.fromMatrix(this.matrix);
+    }
+
+    /**
+     * 计算挂到 `parent` 下之后保持世界变换不变所需的局部 Transform。
+     * 对应 Bevy 的 `GlobalTransform::reparented_to`。
+     */
+    public reparentedTo(parent: GlobalTransform): Transform {
+        return Transform.fromMatrix(parent.matrix.inverse().multiply(this.matrix));
+    }
+}
+
+/**
+ * 局部变换 (相对父节点): 平移、旋转 (弧度) 与缩放。
+ * 添加时自动插入 GlobalTransform。直接修改字段后需调用 `markChanged()` (或通过 `entity.getMut(Transform)` 修改)，传播系统才会重新计算。
+ * 对应 Bevy 的 `Transform`。
+ */
+export class Transform extends Component {
+    static required: RequiredComponent[] = [GlobalTransform];
+
+    constructor(
+        public x = 0,
+        public y = 0,
+        public rotation = 0,
+        public scaleX = 1,
+        public scaleY = 1
+    ) { super(); }
+
+    public static fromMatrix(matrix: Affine2): Transform {
+        const { x, y, rotation, scaleX, scaleY } = matrix.decompose();
+        return new Transform(x, y, rotation, scaleX, scaleY);
+    }
+
+    /**
+     * 局部矩阵。
+     */
+    public toMatrix(): Affine2 {
+        return Affine2.fromTransform(this.x, this.y, this.rotation, this.scaleX, this.scaleY);
+    }
+
+    /**
+     * 用矩阵设置平移、旋转与缩放。
+     */
+    public setMatrix(matrix: Affine2): this {
+        Object.assign(this, matrix.decompose());
+        return this.touch();
+    }
+
+    /**
+     * 平移。
+     */
+    public translate(dx: number, dy: number): this {
+        this.x += dx;
+        this.y += dy;
+        return this.touch();
+    }
+
+    /**
+     * 旋转 (弧度)。
+     */
+    public rotate(angle: number): this {
+        this.rotation += angle;
+        return this.touch();
+    }
+
+    /**
+     * 旋转使局部 +X 轴指向目标点 (父节点坐标系)。
+     * 对应 Bevy 的 `Transform::look_at`。
+     */
+    public lookAt(target: Vec2): this {
+        this.rotation = Math.atan2(target.y - this.y, target.x - this.x);
+        return this.touch();
+    }
+
+    /**
+     * 把局部坐标的点变换到父节点坐标系。
+     */
+    public transformPoint(point: Vec2): Vec2 {
+        return this.toMatrix().transformPoint(point);
+    }
+
+    /**
+     * 已挂到实体上时标记为已修改。
+     */
+    private touch(): this {
+        if (this.entity) this.markChanged();
+        return this;
+    }
+}
+
+/**
+ * 由 Transform 链即时计算实体的世界矩阵 (不依赖上一次传播的 GlobalTransform)。
+ * 与传播系统一致: 父节点没有 GlobalTransform 时视为根节点；没有 Transform 的实体使用其 GlobalTransform。
+ */
+export function computeGlobalMatrix(entity: Entity): Affine2 | undefined {
+    const local = entity.get(Transform);
+    if (!local) return entity.get(GlobalTransform)?.matrix;
+    const parent = entity.getParent();
+    const parentMatrix = parent && parent.has(GlobalTransform) ? computeGlobalMatrix(parent) : undefined;
+    return parentMatrix ? parentMatrix.multiply(local.toMatrix()) : local.toMatrix();
+}
+
+/**
+ * 设置父节点并保持世界变换不变 (根据当前的 Transform 链重新计算局部 Transform，
+ * 本帧内尚未传播的修改也会被考虑)。
+ * 对应 Bevy 的 `set_parent_in_place`。
+ */
+export function setParentInPlace(child: Entity, parent: Entity): void {
+    const global = computeGlobalMatrix(child);
+    const parentGlobal = parent.has(GlobalTransform) ? computeGlobalMatrix(parent) : undefined;
+    child.setParent(parent);
+    if (global && parentGlobal) {
+        child.get(Transform)?.setMatrix(parentGlobal.inverse().multiply(global));
+    }
+}
+
+/**
+ * 移除父节点并保持世界变换不变 (同样根据当前的 Transform 链计算)。
+ * 对应 Bevy 的 `remove_parent_in_place`。
+ */
+export function removeParentInPlace(child: Entity): void {
+    const global = computeGlobalMatrix(child);
+    child.removeParent();
+    if (global) {
+        child.get(Transform)?.setMatrix(global);
+    }
+}
+
+/**
+ * 变换传播系统所在的系统集合 (PostUpdate 阶段)。
+ * 各 World 共用，配置运行条件或顺序请使用 `ecs.configureSet(TransformSystems)`。
+ */
+export const TransformSystems = new SystemSet('Transforms', true);
+
+/**
+ * 变换插件: 在 PostUpdate 阶段从根节点向下传播 Transform，得到每个实体的 GlobalTransform。
+ * 只重新计算 Transform 被修改、刚添加、或父节点发生变化的子树。
+ * 对应 Bevy 的 `TransformPlugin`。
+ */
+export class TransformPlugin implements Plugin {
+    public build(world: ECS): void {
+        const registry = world.getResource(TypeRegistry);
+        registry?.register(Transform);
+        // 由 Transform 的必需组件补齐，加载后作为新增组件重新计算
+        registry?.register(GlobalTransform, { transient: true });
+
+        world.addSystem(Stage.PostUpdate, [query(EntityRef, Transform, GlobalTransform), removed(Parent)],
+            function propagateTransforms(transforms: Query<[Entity, Transform, GlobalTransform]>, orphans: RemovedComponents<Parent>) {
+                const since = transforms.lastRunTick;
+                const orphaned = new Set(orphans.read());
+                const visit = (entity: Entity, parent: GlobalTransform | undefined, parentDirty: boolean) => {
+                    const local = entity.get(Transform);
+                    const global = entity.get(GlobalTransform);
+                    if (!local || !global) return;
+
+                    const parentComp = entity.get(Parent);
+                    const dirty = parentDirty
+                        || local._changedTick > since
+                        || global._addedTick > since
+                        || (parentComp !== undefined && parentComp._changedTick > since)
+                        || orphaned.has(entity);
+                    if (dirty) {
+                        global.matrix = parent ? parent.matrix.multiply(local.toMatrix()) : local.toMatrix();
+                        global.markChanged();
+                    }
+                    for (const child of entity.getChildren()) {
+                        visit(child, global, dirty);
+                    }
+                };
+
+                // 从根节点 (没有父节点，或父节点没有 GlobalTransform) 开始
+                for (const [entity] of transforms) {
+                    const parent = entity.getParent();
+                    if (parent && parent.has(GlobalTransform)) continue;
+                    visit(entity, undefined, false);
+                }
+            }
+        ).inSet(TransformSystems);
+    }
+}
+
+// --- 诊断 (Diagnostics) ---
+
+/**
+ * 实体的只读描述。
+ */
+export interface EntityInspection {
+    id: EntityId;
+    index: number;
+    generation: number;
+    components: string[];
+    parent?: EntityId;
+    children: EntityId[];
+}
+
+/**
+ * 系统的只读描述。
+ */
+export interface SystemInspection {
+    name: string;
+    sets: string[];
+    /** 系统 (函数式系统为其全部 Query 参数) 当前匹配的实体数量 */
+    matchedEntities: number;
+    lastRunTick: number;
+}
+
+/**
+ * 调度的只读描述，系统按执行顺序排列。
+ */
+export interface ScheduleInspection {
+    name: string;
+    systems: SystemInspection[];
+}
+
+/**
+ * 缓冲事件存储的只读描述。
+ */
+export interface EventInspection {
+    type: string;
+    /** 仍被保留的事件数量 (两个更新周期) */
+    pending: number;
+    nextId: EventId;
+}
+
+/**
+ * 观察者的只读描述 (按事件类型与目标分组)。
+ */
+export interface ObserverInspection {
+    event: string;
+    /** 实体观察者的目标，全局观察者为 undefined */
+    target?: EntityId;
+    capture: boolean;
+    count: number;
+}
+
+/**
+ * World 的只读快照，由 `ecs.inspect()` 返回。可直接 JSON.stringify。
+ */
+export interface WorldInspection {
+    tick: number;
+    archetypes: number;
+    entities: EntityInspection[];
+    schedules: ScheduleInspection[];
+    resources: string[];
+    events: EventInspection[];
+    observers: ObserverInspection[];
+}
+
+/**
+ * 单个系统的耗时统计 (毫秒)。
+ */
+export interface SystemTiming {
+    name: string;
+    schedule: string;
+    runs: number;
+    last: number;
+    total: number;
+    max: number;
+}
+
+/**
+ * 诊断报告，由 `Diagnostics.toJSON()` 返回。
+ */
+export interface DiagnosticsReport {
+    frames: number;
+    entityCount: number;
+    componentCount: number;
+    archetypeCount: number;
+    averageFrameTime: number;
+    maxFrameTime: number;
+    fps: number;
+    frameTimes: number[];
+    systems: (SystemTiming & { average: number })[];
+}
+
+/**
+ * 诊断资源: 记录每个系统的执行耗时、实体 / 组件数量与帧时间历史 (毫秒)。
+ * 存在该资源时 ECS 才会计时，通过 `DiagnosticsPlugin` 添加。
+ * 系统耗时使用真实时钟 (`clock`，与 World 的时间无关)；帧时间使用 World 的时钟 (`setClock`)。
+ * 对应 Bevy 的 `DiagnosticsStore` (`FrameTimeDiagnosticsPlugin` / `EntityCountDiagnosticsPlugin`)。
+ */
+export class Diagnostics extends Resource {
+    static rollback = false;
+
+    /** 帧时间历史 (两次 `update()` 之间的间隔)，从旧到新 */
+    public frameTimes: number[] = [];
+    public frames = 0;
+    public entityCount = 0;
+    public componentCount = 0;
+    public archetypeCount = 0;
+    /** 测量系统耗时的时钟，默认 `RealClock`，不受 `VirtualClock`、暂停或固定步长影响 */
+    public clock: Clock = new RealClock();
+    private systemTimings = new Map<System, SystemTiming>();
+
+    /**
+     * @param historyLength 保留的帧时间数量
+     */
+    constructor(public historyLength = 120) { super(); }
+
+    /**
+     * 平均帧时间 (毫秒)。
+     */
+    public averageFrameTime(): number {
+        if (this.frameTimes.length === 0) return 0;
+        return this.frameTimes.reduce((sum, time) => sum + time, 0) / this.frameTimes.length;
+    }
+
+    /**
+     * 根据平均帧时间估算的帧率。
+     */
+    public fps(): number {
+        const average = this.averageFrameTime();
+        return average > 0 ? 1000 / average : 0;
+    }
+
+    /**
+     * 所有运行过的系统的耗时统计。
+     */
+    public systems(): SystemTiming[] {
+        return [...this.systemTimings.values()];
+    }
+
+    /**
+     * 清空所有统计。
+     */
+    public reset(): void {
+        this.frameTimes = [];
+        this.frames = 0;
+        this.systemTimings.clear();
+    }
+
+    public toJSON(): DiagnosticsReport {
+        return {
+            frames: this.frames,
+            entityCount: this.entityCount,
+            componentCount: this.componentCount,
+            archetypeCount: this.archetypeCount,
+            averageFrameTime: this.averageFrameTime(),
+            maxFrameTime: Math.max(0, ...this.frameTimes),
+            fps: this.fps(),
+            frameTimes: [...this.frameTimes],
+            systems: this.systems().map(timing => ({ ...timing, average: timing.total / timing.runs })),
+        };
+    }
+
+    /**
+     * 可读的文本报告。
+     */
+    public toText(): string {
+        const report = this.toJSON();
+        const ms = (value: number) => `${value.toFixed(2)}ms`;
+        const lines = [
+            `Frames: ${report.frames}, avg ${ms(report.averageFrameTime)} (${report.fps.toFixed(1)} fps), max ${ms(report.maxFrameTime)}`,
+            `Entities: ${report.entityCount}, components: ${report.componentCount}, archetypes: ${report.archetypeCount}`,
+            `Systems:`,
+        ];
+        for (const timing of report.systems) {
+            lines.push(`  [${timing.schedule}] ${timing.name}: last ${ms(timing.last)}, avg ${ms(timing.average)}, max ${ms(timing.max)}, runs ${timing.runs}`);
+        }
+        return lines.join('\n');
+    }
+
+    // --- 内部方法 (由 ECS 调用) ---
+
+    public _recordSystem(system: System, schedule: string, time: number): void {
+        let timing = this.systemTimings.get(system);
+        if (!timing) {
+            timing = { name: systemName(system), schedule, runs: 0, last: 0, total: 0, max: 0 };
+            this.systemTimings.set(system, timing);
+        }
+        timing.runs++;
+        timing.last = time;
+        timing.total += time;
+        timing.max = Math.max(timing.max, time);
+    }
+
+    public _forgetSystem(system: System): void {
+        this.systemTimings.delete(system);
+    }
+
+    public _recordFrame(frameTime: number | undefined, entityCount: number, componentCount: number, archetypeCount: number): void {
+        this.frames++;
+        this.entityCount = entityCount;
+        this.componentCount = componentCount;
+        this.archetypeCount = archetypeCount;
+        if (frameTime === undefined) return;
+        this.frameTimes.push(frameTime);
+        if (this.frameTimes.length > this.historyLength) {
+            this.frameTimes.splice(0, this.frameTimes.length - this.historyLength);
+        }
+    }
+}
+
+/**
+ * 诊断插件: 插入 `Diagnostics` 资源，开始记录系统耗时与帧统计。
+ */
+export class DiagnosticsPlugin implements Plugin {
+    constructor(private historyLength = 120) {}
+
+    public build(world: ECS): void {
+        world.insertResource(new Diagnostics(this.historyLength));
+    }
+}
+
+// --- 快照与回放 (Snapshot & Replay) ---
+
+/**
+ * 单个原型表的快照。
+ */
+interface TableSnapshot {
+    archetype: Archetype;
+    entities: Entity[];
+    columns: Map<Function, Component[]>;
+}
+
+/**
+ * 快照内容 (内部结构)。
+ */
+interface SnapshotData {
+    tables: TableSnapshot[];
+    nextEntityID: number;
+    generations: number[];
+    freeIndices: number[];
+    entitiesToDestroy: { entity: Entity; children: DespawnChildren }[];
+    resources: Map<Function, Resource>;
+    events: Map<Function, EventsState<any>>;
+    readerCursors: Map<EventReader<any>, EventId>;
+    states: Map<StatesType, { current: StateValue; pending: StateValue | undefined; entered: boolean }>;
+}
+
+/**
+ * World 在某一帧的内存快照，由 `ecs.snapshot()` 创建、`ecs.restore()` 恢复。
+ * 快照内的数据是深拷贝，恢复时再次拷贝，因此同一快照可以恢复多次。
+ */
+export class WorldSnapshot {
+    constructor(public readonly frame: number, public readonly _data: SnapshotData) {}
+}
+
+/**
+ * 深拷贝用于快照的值。
+ * 实体引用、函数、生成器、Promise 以及类上声明了 `static snapshotShared = true` 的对象按引用共享。
+ */
+function snapshotClone<T>(value: T, memo: Map<any, any>): T {
+    if (value === null || typeof value !== 'object') return value;
+    if (value instanceof Entity || value instanceof ECS) return value;
+    const cached = memo.get(value);
+    if (cached !== undefined) return cached;
+
+    let copy: any;
+    if (Array.isArray(value)) {
+        copy = [];
+        memo.set(value, copy);
+        for (const item of value) copy.push(snapshotClone(item, memo));
+    } else if (value instanceof Map) {
+        copy = new Map();
+        memo.set(value, copy);
+        for (const [key, item] of value) copy.set(snapshotClone(key, memo), snapshotClone(item, memo));
+    } else if (value instanceof Set) {
+        copy = new Set();
+        memo.set(value, copy);
+        for (const item of value) copy.add(snapshotClone(item, memo));
+    } else if (value instanceof Date) {
+        copy = new Date(value.getTime());
+    } else if (ArrayBuffer.isView(value)) {
+        copy = (value as any).slice();
+    } else {
+        const tag = Object.prototype.toString.call(value);
+        // 其他类也可以声明同名的静态字段
+        const type = value.constructor as typeof Component | typeof Resource | undefined;
+        if (tag === '[object Generator]' || tag === '[object Promise]' || type?.snapshotShared) {
+            return value;
+        }
+        copy = Object.create(Object.getPrototypeOf(value));
+        memo.set(value, copy);
+        for (const key of Object.keys(value)) {
+            copy[key] = snapshotClone((value as any)[key], memo);
+        }
+    }
+    return copy;
+}
+
+/**
+ * 类型是否参与快照回滚 (类上声明 `static rollback = false` 时不参与)。
+ */
+function isRollbackType(type: Function): boolean {
+    return (type as typeof Resource).rollback !== false;
+}
+
+/**
+ * 计算校验和时组件的稳定名称 (优先使用类型注册表中的名称)。
+ */
+function checksumTypeName(type: Function, registry?: TypeRegistry): string {
+    return registry?.getByType(type)?.name ?? type.name;
+}
+
+/**
+ * 把任意值按稳定顺序写入哈希 (FNV-1a 32 位)。
+ */
+class ChecksumWriter {
+    public hash = 0x811c9dc5;
+    private seen = new Set<object>();
+
+    public write(text: string): void {
+        for (let i = 0; i < text.length; i++) {
+            this.hash ^= text.charCodeAt(i);
+            this.hash = Math.imul(this.hash, 0x01000193) >>> 0;
+        }
+    }
+
+    public value(value: any): void {
+        if (value === null || value === undefined) {
+            this.write(String(value));
+        } else if (typeof value === 'number' || typeof value === 'boolean' || typeof value === 'bigint') {
+            this.write(`${typeof value}:${value};`);
+        } else if (typeof value === 'string') {
+            this.write(`s${value.length}:${value}`);
+        } else if (typeof value === 'function' || typeof value === 'symbol') {
+            return;
+        } else if (value instanceof Entity) {
+            this.write(`e:${value.id};`);
+        } else {
+            if (this.seen.has(value)) return;
+            this.seen.add(value);
+            if (Array.isArray(value) || ArrayBuffer.isView(value)) {
+                this.write('[');
+                for (const item of Array.from(value as ArrayLike<any>)) this.value(item);
+                this.write(']');
+            } else if (value instanceof Map) {
+                this.write('M');
+                for (const [key, item] of value) { this.value(key); this.value(item); }
+            } else if (value instanceof Set) {
+                this.write('S');
+                for (const item of value) this.value(item);
+            } else {
+                this.write('{');
+                for (const key of Object.keys(value).sort()) {
+                    if (value instanceof Component && INTERNAL_COMPONENT_FIELDS.has(key)) continue;
+                    this.write(key);
+                    this.value(value[key]);
+                }
+                this.write('}');
+            }
+        }
+    }
+}
+
+/**
+ * 最近若干帧快照的环形缓冲区 (资源，自身不参与回滚)。
+ * @example
+ * const buffer = ecs.getResource(SnapshotBuffer)!;
+ * buffer.push(ecs.snapshot());           // 每帧保存
+ * ecs.restore(buffer.get(frame)!);       // 回滚到第 frame 帧
+ * buffer.discardAfter(frame);            // 丢弃被回滚掉的未来帧
+ */
+export class SnapshotBuffer extends Resource {
+    static rollback = false;
+
+    private snapshots: WorldSnapshot[] = [];
+
+    /**
+     * @param capacity 最多保留的快照数量，超出时丢弃最旧的
+     */
+    constructor(public capacity = 60) { super(); }
+
+    /**
+     * 保存快照 (同一帧的旧快照会被替换)。
+     */
+    public push(snapshot: WorldSnapshot): void {
+        this.discardAfter(snapshot.frame - 1);
+        this.snapshots.push(snapshot);
+        if (this.snapshots.length > this.capacity) {
+            this.snapshots.splice(0, this.snapshots.length - this.capacity);
+        }
+    }
+
+    /**
+     * 获取指定帧的快照。
+     */
+    public get(frame: number): WorldSnapshot | undefined {
+        return this.snapshots.find(snapshot => snapshot.frame === frame);
+    }
+
+    /**
+     * 最新的快照。
+     */
+    public latest(): WorldSnapshot | undefined {
+        return this.snapshots[this.snapshots.length - 1];
+    }
+
+    /**
+     * 已保存的帧号 (从旧到新)。
+     */
+    public frames(): number[] {
+        return this.snapshots.map(snapshot => snapshot.frame);
+    }
+
+    /**
+     * 丢弃帧号大于 `frame` 的快照 (回滚后它们已失效)。
+     */
+    public discardAfter(frame: number): void {
+        this.snapshots = this.snapshots.filter(snapshot => snapshot.frame <= frame);
+    }
+
+    public clear(): void {
+        this.snapshots = [];
+    }
+}
+
+/**
+ * 输入录制的一帧。
+ */
+export interface RecordedFrame<T> {
+    frame: number;
+    input: T;
+    checksum?: number;
+}
+
+/**
+ * 回放时检测到的分歧。
+ */
+export interface Divergence {
+    frame: number;
+    expected: number;
+    actual: number;
+}
+
+/**
+ * 输入录制资源 (自身不参与回滚): 录制每帧输入与 World 校验和，之后逐帧回放并检测分歧。
+ *
+ * @example
+ * // 输入系统: 录制模式下记录实时输入，回放模式下返回录制的输入
+ * const input = recording.capture(time.frameCount, readDevices());
+ * // 帧末: 录制模式下保存校验和，回放模式下比对
+ * recording.checkpoint(time.frameCount, ecs.checksum());
+ */
+export class InputRecording<T = unknown> extends Resource {
+    static rollback = false;
+
+    public mode: 'idle' | 'record' | 'replay' = 'idle';
+    public divergences: Divergence[] = [];
+    private recorded = new Map<number, RecordedFrame<T>>();
+
+    /**
+     * 开始录制 (清空之前的录制)。
+     */
+    public startRecording(): void {
+        this.recorded.clear();
+        this.divergences = [];
+        this.mode = 'record';
+    }
+
+    /**
+     * 开始回放已录制 (或 `load` 加载) 的输入。
+     */
+    public startReplay(): void {
+        this.divergences = [];
+        this.mode = 'replay';
+    }
+
+    public stop(): void {
+        this.mode = 'idle';
+    }
+
+    /**
+     * 获取本帧应使用的输入: 录制模式下记录并返回 `live`，回放模式下返回录制的输入 (没有录制时返回 `live`)。
+     */
+    public capture(frame: number, live: T): T {
+        if (this.mode === 'replay') {
+            const recorded = this.recorded.get(frame);
+            return recorded ? recorded.input : live;
+        }
+        if (this.mode === 'record') {
+            this.recorded.set(frame, { frame, input: live });
+        }
+        return live;
+    }
+
+    /**
+     * 帧末校验: 录制模式下保存校验和，回放模式下与录制的校验和比对，不一致时记录分歧并返回 false。
+     */
+    public checkpoint(frame: number, checksum: number): boolean {
+        const recorded = this.recorded.get(frame);
+        if (this.mode === 'record') {
+            if (recorded) recorded.checksum = checksum;
+            else this.recorded.set(frame, { frame, input: undefined as T, checksum });
+            return true;
+        }
+        if (this.mode === 'replay' && recorded?.checksum !== undefined && recorded.checksum !== checksum) {
+            this.divergences.push({ frame, expected: recorded.checksum, actual: checksum });
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * 第一个分歧的帧 (没有分歧时为 undefined)。
+     */
+    public firstDivergence(): Divergence | undefined {
+        return this.divergences[0];
+    }
+
+    /**
+     * 导出录制内容 (输入需可被 JSON 序列化)，用于保存回放文件。
+     */
+    public frames(): RecordedFrame<T>[] {
+        return [...this.recorded.values()].sort((a, b) => a.frame - b.frame);
+    }
+
+    /**
+     * 加载录制内容。
+     */
+    public load(frames: Iterable<RecordedFrame<T>>): void {
+        this.recorded.clear();
+        for (const frame of frames) {
+            this.recorded.set(frame.frame, { ...frame });
+        }
+    }
+}
+
+/**
+ * 回滚插件: 插入 `SnapshotBuffer` 与 `InputRecording` 资源。
+ */
+export class RollbackPlugin implements Plugin {
+    constructor(private capacity = 60) {}
+
+    public build(world: ECS): void {
+        world.insertResource(new SnapshotBuffer(this.capacity));
+        world.insertResource(new InputRecording());
+    }
+}
+
+/**
+ * ECS (Entity Component System) 类，充当 World 的角色。
+ * 管理所有实体、组件、系统、资源和事件。
+ */
+export class ECS {
+    // 主要状态
+    private entities = new Map<EntityId, Entity>() // ID -> Entity Object (只包含存活的实体)
+    // 所有的系统 (包括 Query) -> 匹配的原型列表 (缓存)
+    private systems = new Map<System, Archetype[]>()
+    // 按阶段划分的系统执行列表 (状态调度使用其 key 作为键)
+    private systemsByStage = new Map<Stage | string, Set<System>>()
+
+    // 原型存储 (Archetype Storage)
+    private archetypes: Archetype[] = []
+    private archetypeIndex = new Map<string, Archetype>() // 原型键 -> 原型
+    // 组件索引 (Component Index) - 组件类型 -> 包含该类型的原型，优化 query / getComps 性能
+    private archetypesByType = new Map<Function, Archetype[]>()
+    private emptyArchetype: Archetype
+
+    // 资源 (Resources) - 单例组件
+    private resources = new Map<Function, Resource>()
+
+    // 事件 (Events) - 每种类型一个双缓冲存储
+    private events = new Map<Function, Events<any>>()
+
+    // 变更检测 (Change Detection)
+    // 每个系统运行前后各递增一次，组件记录被添加/修改时的 Tick
+    private changeTick = 1
+    private lastUpdateTick = 0
+    // 已移除组件记录: 组件类型 -> (实体, 移除时的 Tick)，保留两次 update
+    private removedComponents = new Map<Function, { entity: Entity, tick: number }[]>()
+    // 运行条件 (onEvent) 持有的事件读取器: 条件所属的系统 / 集合 -> 条件 -> 读取器
+    private conditionReaders = new Map<System | SystemSet | undefined, Map<object, EventReader<any>>>()
+    // 正在求值的运行条件所属的系统 / 集合
+    private conditionOwner?: System | SystemSet
+    // 进行中的实体遍历 (见 getSystemEntities)
+    private iterations = new Set<EntityIteration>()
+    // 正在移除 (回调执行中) 的组件，防止回调中再次移除同一组件导致无限递归
+    private removingComponents = new Set<Component>()
+
+    // 实体簿记
+    private nextEntityID = 0 // 下一个从未使用过的槽位索引
+    private generations: number[] = [] // 槽位索引 -> 当前代数
+    private freeIndices: number[] = [] // 可回收的槽位索引
+    private reservedEntities: Archetype = new Archetype(-1, []) // 已预留、尚未放入原型表的实体
+    private entitiesToDestroy = new Array<{ entity: Entity; children: DespawnChildren }>()
+
+    // 生命周期系统 (Lifecycle Systems) - 对应 Lua 的 CompInitializeSystem/CompDestroySystem
+    private initializeSystems = new Map<Function, Set<(entity: Entity, component: Component) => void>>()
+    private destroySystems = new Map<Function, Set<(entity: Entity, component: Component) => void>>()
+
+    // 立即事件系统 (Immediate Events / Observers)
+    // 全局观察者
+    private globalObservers = new Map<Function, Set<(trigger: Trigger<any>) => void>>()
+    // 实体观察者: Entity -> EventType -> Callbacks
+    private entityObservers = new Map<Entity, Map<Function, Set<(trigger: Trigger<any>) => void>>>()
+    // 捕获阶段的实体观察者
+    private captureObservers = new Map<Entity, Map<Function, Set<(trigger: Trigger<any>) => void>>>()
+
+    // 按所属者分组的注册句柄 (插件 / 实体 / 任意对象)
+    private ownedSubscriptions = new Map<unknown, Set<Subscription>>()
+    // 插件内添加的系统 -> 插件持有的注册句柄 (系统被单独移除时一并释放)
+    private systemSubscriptions = new Map<System, Subscription>()
+    // 正在构建的插件，作为其注册内容的默认所属者
+    private currentPlugin?: Plugin
+
+    // 插件 (Plugins) - 按添加顺序保存
+    private plugins: Plugin[] = []
+    private pluginNames = new Set<string>()
+    private pluginsFinished = false
+
+    // 命令缓冲 (Deferred Commands)
+    private commandBuffer: Commands
+
+    // 时间驱动 (tick)
+    private clock: Clock = new RealClock()
+    private lastClockTime: number | undefined = undefined
+    private lastFrameStart: number | undefined = undefined
+    private started = false
+
+    // 排序后的调度缓存 (System Ordering)
+    private sortedStages = new Map<Stage | string, { systems: System[], setVersions: Map<SystemSet, number> }>()
+    // 共用集合标签 -> 本 World 的集合配置，以及反向映射
+    private configuredSets = new Map<SystemSet, SystemSet>()
+    private setLabels = new Map<SystemSet, SystemSet>()
+    // 正在通过 runSchedule 运行的调度 (防止重入)
+    private runningSchedules = new Set<Stage | string>()
+    private ambiguityDetection: AmbiguityDetection = 'ignore'
+
+    // 状态 (States) - 状态类型 -> 当前/下一个状态资源
+    private states = new Map<StatesType, { state: State<any>, next: NextState<any>, entered: boolean }>()
+
+    constructor() {
+        this.emptyArchetype = this.getArchetype([]);
+        this.commandBuffer = new Commands(this);
+        this.insertResource(new Time());
+        this.insertResource(new FixedTime());
+
+        // 内置类型注册: Children 由 Parent.onAdd 重建，StateScoped 引用枚举对象无法写入存档
+        const registry = new TypeRegistry();
+        registry.register(Parent);
+        registry.register(Children, { transient: true });
+        registry.register(StateScoped, { transient: true });
+        this.insertResource(registry);
+        for (const stage of Object.values(Stage)) {
+            if (typeof stage === 'number') this.systemsByStage.set(stage, new Set());
+        }
+    }
+
+    // --- Bevy-like API ---
+
+    /**
+     * 创建一个新的实体，并返回 EntityCommands 以便链式添加组件。
+     * 可以直接传入组件或组件组: `ecs.spawn(new EnemyBundle())`。
+     * 对应 Bevy 的 `commands.spawn()` 或 Lua 的 `dse.createEntity()`。
+     */
+    public spawn(...items: BundleItem[]): EntityCommands {
+        const entity = this.createEntity();
+        if (items.length > 0) {
+            this.insertBundle(entity, ...items);
+        }
+        return new EntityCommands(this, entity);
+    }
+
+    /**
+     * 添加一个插件 (或插件组)，立即调用其 `build`。
+     * 对应 Bevy 的 `app.add_plugins()`。
+     * 重复添加同名的唯一插件、或依赖的插件尚未添加时会抛出错误。
+     */
+    public addPlugin(plugin: Plugin | PluginGroup): void {
+        if (plugin instanceof PluginGroup) {
+            for (const p of plugin.build()) {
+                this.addPlugin(p);
+            }
+            return;
+        }
+
+        const name = pluginName(plugin);
+        const unique = plugin.isUnique ? plugin.isUnique() : true;
+        if (name !== undefined && unique && this.pluginNames.has(name)) {
+            throw new Error(`Plugin ${name} has already been added!`);
+        }
+
+        const missing = (plugin.dependencies || [])
+            .map(dep => pluginName(dep)!)
+            .filter(dep => !this.pluginNames.has(dep));
+        if (missing.length > 0) {
+            throw new Error(`Plugin ${name ?? '<anonymous>'} depends on ${missing.join(', ')}, which must be added first!`);
+        }
+
+        if (name !== undefined) {
+            this.pluginNames.add(name);
+        }
+        this.plugins.push(plugin);
+        this.withPlugin(plugin, () => plugin.build(this));
+    }
+
+    /**
+     * 按顺序添加多个插件 (或插件组)。
+     */
+    public addPlugins(...plugins: (Plugin | PluginGroup)[]): void {
+        for (const plugin of plugins) {
+            this.addPlugin(plugin);
+        }
+    }
+
+    /**
+     * 检查是否已添加某个插件 (类或名称)。
+     */
+    public hasPlugin(plugin: ClassType<Plugin> | string): boolean {
+        return this.pluginNames.has(pluginName(plugin)!);
+    }
+
+    /**
+     * 获取已添加的插件实例。
+     */
+    public getPlugin<T extends Plugin>(pluginClass: ClassType<T>): T | undefined {
+        return this.plugins.find(p => p instanceof pluginClass) as T | undefined;
+    }
+
+    /**
+     * 依次调用所有插件的 `finish` 与 `cleanup` (只执行一次)。
+     * `startup()` 会自动调用，一般无需手动调用。
+     */
+    public finishPlugins(): void {
+        if (this.pluginsFinished) return;
+        this.pluginsFinished = true;
+        for (const plugin of this.plugins) {
+            this.withPlugin(plugin, () => plugin.finish?.(this));
+        }
+        for (const plugin of this.plugins) {
+            this.withPlugin(plugin, () => plugin.cleanup?.(this));
+        }
+    }
+
+    /**
+     * 注销插件注册的所有系统、观察者与 Hook，并把插件从 World 中移除 (之后可以重新添加)。
+     * 插件插入的资源与生成的实体会保留。
+     */
+    public removePlugin(plugin: Plugin | ClassType<Plugin> | string): void {
+        const instance = typeof plugin === 'object'
+            ? plugin
+            : this.plugins.find(p => pluginName(p) === pluginName(plugin));
+        if (!instance || !this.plugins.includes(instance)) {
+            throw new Error(`Plugin ${pluginName(plugin) ?? '<anonymous>'} has not been added!`);
+        }
+        this.disposeOwner(instance);
+        this.plugins.splice(this.plugins.indexOf(instance), 1);
+        const name = pluginName(instance);
+        if (name !== undefined) {
+            this.pluginNames.delete(name);
+        }
+    }
+
+    /**
+     * 注销某个所属者的所有注册 (系统、观察者、Hook)。
+     * 所属者可以是插件实例、实体或注册时传入的任意对象。
+     */
+    public disposeOwner(owner: unknown): void {
+        const subscriptions = this.ownedSubscriptions.get(owner);
+        if (!subscriptions) return;
+        this.ownedSubscriptions.delete(owner);
+        for (const subscription of subscriptions) {
+            subscription.dispose();
+        }
+    }
+
+    /**
+     * 在插件上下文中执行构建函数，期间的注册默认归该插件所有。
+     */
+    private withPlugin(plugin: Plugin, fn: () => void): void {
+        const previous = this.currentPlugin;
+        this.currentPlugin = plugin;
+        try {
+            fn();
+        } finally {
+            this.currentPlugin = previous;
+        }
+    }
+
+    /**
+     * 创建注册句柄，并按所属者记录。
+     */
+    private subscribe(teardown: () => void, owner: unknown = this.currentPlugin): Subscription {
+        const subscription = new Subscription(() => {
+            teardown();
+            this.ownedSubscriptions.get(owner)?.delete(subscription);
+        }, owner);
+        if (owner !== undefined) {
+            if (!this.ownedSubscriptions.has(owner)) {
+                this.ownedSubscriptions.set(owner, new Set());
+            }
+            this.ownedSubscriptions.get(owner)!.add(subscription);
+        }
+        return subscription;
+    }
+
+    /**
+     * 获取 World 的命令缓冲 (延迟执行的结构性修改)。
+     * 对应 Bevy 的 `Commands`。
+     */
+    public commands(): Commands {
+        return this.commandBuffer;
+    }
+
+    /**
+     * 立即应用所有待处理的命令 (手动同步点)。
+     */
+    public applyCommands(): void {
+        this.commandBuffer.apply();
+        this.flushReservedEntities();
+    }
+
+    /**
+     * 插入一个全局资源。
+     * 对应 Bevy 的 `app.insert_resource()`。
+     */
+    public insertResource(resource: Resource): void {
+        this.resources.set(resource.constructor, resource);
+    }
+
+    /**
+     * 注册组件 / 资源类型以支持序列化。
+     * `ecs.getSingleComp(TypeRegistry).register()` 的简写。
+     * @example ecs.registerType(Position, { name: 'game.Position' })
+     */
+    public registerType<T>(type: ClassType<T>, options: TypeRegistrationOptions<T> = {}): void {
+        this.getSingleComp(TypeRegistry).register(type, options);
+    }
+
+    /**
+     * 把 World 序列化为版本化的 JSON 对象。
+     * 已注册类型的实例 (包括嵌套在组件字段中的) 写为 `{ $type, data }`，未注册的对象按普通对象处理。
+     * 写入: 所有实体上已注册且非临时的组件、已注册且非临时的资源、层级关系 (`Parent`)。
+     * 实体引用被写为 `{ $entity: id }`，加载时重新映射。
+     * @param entities (可选) 只序列化这些实体，默认全部。
+     */
+    public serialize(entities: Iterable<Entity> = this.entities.values()): SerializedWorld {
+        const registry = this.getSingleComp(TypeRegistry);
+        const ctx: SerializeContext = {
+            entityId: (entity) => entity.id,
+            value: (value) => this.serializeValue(value, ctx, registry),
+        };
+        const serializeInstance = (instance: any): SerializedValue => {
+            const { $type, data } = ctx.value(instance);
+            return { type: $type, data };
+        };
+
+        const world: SerializedWorld = { version: WORLD_FORMAT_VERSION, entities: [], resources: [] };
+        for (const entity of entities) {
+            if (entity.destroyed) continue;
+            const components: SerializedValue[] = [];
+            for (const type of entity.getComponentTypes()) {
+                if (!registry.isSerializable(type)) continue;
+                components.push(serializeInstance(entity.get(type as ClassType<Component>)!));
+            }
+            const children = entity.get(Children)?.value;
+            world.entities.push(children && children.length > 0
+                ? { id: entity.id, components, children: children.map(child => child.id) }
+                : { id: entity.id, components });
+        }
+        for (const [type, resource] of this.resources) {
+            if (!registry.isSerializable(type)) continue;
+            world.resources.push(serializeInstance(resource));
+        }
+        return world;
+    }
+
+    /**
+     * 从 `serialize()` 的结果加载实体与资源 (追加到当前 World)。
+     * 会为每个存档实体创建新实体、重新映射实体引用，并正常触发组件添加 Hook。
+     * 指向存档之外的实体引用 (如只序列化了子节点) 无法映射: `Parent` 会被丢弃 (实体作为根节点加载)，
+     * 其他字段中的引用加载为 `undefined`。
+     * @returns 存档 ID -> 新实体 的映射
+     */
+    public deserialize(world: SerializedWorld): Map<number, Entity> {
+        if (world.version !== WORLD_FORMAT_VERSION) {
+            throw new Error(`Unsupported world format version ${world.version} (expected ${WORLD_FORMAT_VERSION})`);
+        }
+        const registry = this.getSingleComp(TypeRegistry);
+        const entityMap = new Map<number, Entity>();
+        for (const saved of world.entities) {
+            entityMap.set(saved.id, this.createEntity());
+        }
+
+        const ctx: DeserializeContext = {
+            entity: (id) => entityMap.get(id),
+            value: (data) => this.deserializeValue(data, ctx, registry),
+        };
+        const deserializeInstance = (saved: SerializedValue): any => ctx.value({ $type: saved.type, data: saved.data });
+
+        for (const saved of world.resources) {
+            this.insertResource(deserializeInstance(saved));
+        }
+        for (const saved of world.entities) {
+            const entity = entityMap.get(saved.id)!;
+            const components: Component[] = saved.components.map(deserializeInstance);
+            // 父节点不在存档中时作为根节点加载
+            this.insertBundle(entity, ...components.filter(component => !(component instanceof Parent && component.value === undefined)));
+        }
+        // Children 由 Parent.onAdd 按加载顺序重建，再按存档恢复兄弟顺序
+        for (const saved of world.entities) {
+            const children = saved.children && entityMap.get(saved.id)!.get(Children);
+            if (!children) continue;
+            const order = new Map(saved.children!.map((id, index) => [entityMap.get(id), index]));
+            children.value.sort((a, b) => (order.get(a) ?? order.size) - (order.get(b) ?? order.size));
+        }
+        return entityMap;
+    }
+
+    /**
+     * 获取一个全局资源。
+     * 对应 Bevy 的 `Res<T>`。
+     */
+    public getResource<T extends Resource>(resourceClass: ClassType<T>): T | undefined {
+        return this.resources.get(resourceClass) as T;
+    }
+
+    /**
+     * 获取单例组件 (Resource 的别名)。
+     * 对应 Lua dse.getSingleComp。
+     * 如果资源不存在，会自动创建并注册。
+     */
+    public getSingleComp<T extends Resource>(resourceClass: ClassType<T>): T {
+        let res = this.getResource(resourceClass);
+        if (!res) {
+            res = new resourceClass();
             this.insertResource(res);
         }
-        return res;
+        return res;
+    }
+
+    /**
+     * 移除一个全局资源。
+     */
+    public removeResource(resourceClass: Function): void {
+        this.resources.delete(resourceClass);
+    }
+
+    /**
+     * 初始化一个状态类型 (通常是枚举) 及其初始值。
+     * 对应 Bevy 的 `app.init_state()`。
+     * 初始状态的 OnEnter 会在下一次 `startup()` 或 `update()` 时运行。重复初始化会被忽略。
+     * @example ecs.initState(GameState, GameState.Menu)
+     */
+    public initState<S extends StateValue>(type: StatesType, initial: S): void {
+        if (this.states.has(type)) return;
+        this.states.set(type, { state: new State(type, initial), next: new NextState<S>(type), entered: false });
+    }
+
+    /**
+     * 获取当前状态资源。
+     * 对应 Bevy 的 `Res<State<S>>`。
+     */
+    public getState<S extends StateValue>(type: StatesType): State<S> | undefined {
+        return this.states.get(type)?.state;
+    }
+
+    /**
+     * 获取下一个状态资源。
+     * 对应 Bevy 的 `ResMut<NextState<S>>`。
+     */
+    public getNextState<S extends StateValue>(type: StatesType): NextState<S> | undefined {
+        return this.states.get(type)?.next;
+    }
+
+    /**
+     * 请求切换状态 (`getNextState(type).set(value)` 的简写)。
+     */
+    public setNextState<S extends StateValue>(type: StatesType, value: S): void {
+        const next = this.getNextState<S>(type);
+        if (!next) {
+            throw new Error(`State has not been initialized, call ecs.initState() first`);
+        }
+        next.set(value);
+    }
+
+    /**
+     * 发送一个缓冲事件 (Buffered)，返回事件 ID。
+     * 事件立即对 `EventReader` 可见，并保留两个更新周期。
+     * 对应 Bevy 的 `EventWriter<T>.send()`。
+     * 新命名: `pushEvent`
+     */
+    public pushEvent(event: Event): EventId {
+        return this.getEvents(event.constructor as ClassType<Event>).send(event);
+    }
+
+    /**
+     * 获取某事件类型的存储，不存在时创建。
+     * 对应 Bevy 的 `Res<Events<T>>`。
+     */
+    public getEvents<T extends Event>(eventClass: ClassType<T>): Events<T> {
+        let events = this.events.get(eventClass);
+        if (!events) {
+            events = new Events<T>();
+            this.events.set(eventClass, events);
+        }
+        return events;
+    }
+
+    /**
+     * 立即触发一个事件 (Immediate / Observer)。
+     * 这会同步调用所有注册了该事件类型的观察者 (包括全局和实体级)。
+     * 对应 Lua 的 `event:trigger()` 或 Bevy 的 `commands.trigger()`.
+     * 支持事件传播 (Event Propagation)，顺序与 DOM 事件一致:
+     * 1. 捕获: 根 -> 目标的父节点，调用捕获观察者
+     * 2. 目标: 目标实体的捕获观察者，然后普通观察者
+     * 3. 冒泡: 目标的父节点 -> 根，调用普通观察者 (事件类型 `static bubbles = false` 时跳过)
+     * 4. 全局观察者 (不受 stopPropagation 影响)
+     * 传播路径由事件类型的 `static traversal` 决定，在触发前确定。
+     * 
+     * @param event 要触发的事件对象
+     * @param target (可选) 目标实体。如果提供，将触发该实体及其传播路径上的观察者。
+     */
+    public trigger(event: Event, target?: Entity): void {
+        const type = event.constructor as typeof Event;
+        const triggerObj = new Trigger(event, target);
+
+        // 1. 触发实体观察者 (捕获 / 目标 / 冒泡)
+        if (target !== undefined) {
+            // 传播路径: target -> ... -> root (遇到环时截断)
+            const path = [target];
+            for (let next = type.traversal(target); next && !path.includes(next); next = type.traversal(next)) {
+                path.push(next);
+            }
+
+            for (let i = path.length - 1; i > 0 && !triggerObj.isPropagationStopped(); i--) {
+                this.notifyObservers(this.captureObservers, path[i], triggerObj, 'capture');
+            }
+            if (!triggerObj.isPropagationStopped()) {
+                this.notifyObservers(this.captureObservers, target, triggerObj, 'target');
+                if (!triggerObj.isImmediatePropagationStopped()) {
+                    this.notifyObservers(this.entityObservers, target, triggerObj, 'target');
+                }
+            }
+            if (type.bubbles) {
+                for (let i = 1; i < path.length && !triggerObj.isPropagationStopped(); i++) {
+                    this.notifyObservers(this.entityObservers, path[i], triggerObj, 'bubble');
+                }
+            }
+        }
+
+        // 2. 触发全局观察者
+        triggerObj.currentTarget = undefined;
+        triggerObj.phase = 'global';
+        const globalCallbacks = this.globalObservers.get(type);
+        if (globalCallbacks) {
+            for (const callback of globalCallbacks) {
+                callback(triggerObj);
+            }
+        }
+    }
+
+    /**
+     * 调用实体在某个阶段的观察者，stopImmediatePropagation 后停止。
+     */
+    private notifyObservers(
+        observers: Map<Entity, Map<Function, Set<(trigger: Trigger<any>) => void>>>,
+        entity: Entity,
+        trigger: Trigger<any>,
+        phase: TriggerPhase
+    ): void {
+        const callbacks = observers.get(entity)?.get(trigger.event.constructor);
+        if (!callbacks) return;
+        trigger.currentTarget = entity;
+        trigger.phase = phase;
+        for (const callback of callbacks) {
+            callback(trigger);
+            if (trigger.isImmediatePropagationStopped()) return;
+        }
+    }
+
+    /**
+     * 递归销毁实体及其所有子节点。
+     * 对应 Bevy 的 `despawn_recursive`。
+     */
+    public despawnRecursive(entity: Entity): void {
+        this.removeEntity(entity, 'recursive');
+    }
+
+    /**
+     * 读取上一帧发送的事件 (不使用游标，同一帧内重复调用结果相同)。
+     * 需要"只读未读事件"时使用 `EventReader`。
+     */
+    public readEvents<T extends Event>(eventClass: ClassType<T>): Iterable<T> {
+        return this.events.get(eventClass)?.previousCycle() ?? [];
+    }
+
+    /**
+     * 获取特定类型事件的数量 (上一帧)。
+     */
+    public eventCount(eventClass: Function): number {
+        return this.events.get(eventClass)?.previousCycle().length || 0;
+    }
+
+    /**
+     * 获取当前变更检测 Tick。
+     */
+    public getChangeTick(): number {
+        return this.changeTick;
+    }
+
+    /**
+     * 将组件标记为已修改 (用于 `Changed<T>` 过滤器)。
+     */
+    public markChanged(component: Component): void {
+        component._changedTick = this.changeTick;
+    }
+
+    /**
+     * 读取在指定 Tick 之后被移除了某组件的实体。
+     * 对应 Bevy 的 `RemovedComponents<T>`，记录保留两次 update。
+     */
+    public readRemoved(componentClass: Function, sinceTick: number): Entity[] {
+        const records = this.removedComponents.get(componentClass);
+        if (!records) return [];
+        return records.filter(r => r.tick > sinceTick).map(r => r.entity);
+    }
+
+    /**
+     * 查询拥有特定组件的所有实体。
+     * 对应 Bevy 的 `Query<T>`。
+     * 优化: 只遍历包含该组件的原型的组件列，复杂度为 O(M) (M为该组件数量)。
+     */
+    public *query<T extends Component>(componentClass: ClassType<T>): IterableIterator<T> {
+        const archetypes = this.archetypesByType.get(componentClass);
+        if (!archetypes) return;
+        for (const archetype of archetypes) {
+            // 复制列，避免遍历期间的结构变化影响迭代
+            yield* archetype.columns.get(componentClass)!.slice() as T[];
+        }
+    }
+
+    /**
+     * 获取特定类型的所有组件。
+     * 对应 Lua ECS 的 `dse.getComps(compType)`。
+     * 别名: `query`
+     */
+    public getComps<T extends Component>(componentClass: ClassType<T>): Iterable<T> {
+        return this.query(componentClass);
+    }
+
+    /**
+     * 添加一个组件初始化系统 (Hook)。
+     * 当指定类型的组件被添加到实体时调用。
+     * 对应 Lua 的 `dse.createCompInitializeSystem` 或 Bevy 的 `Observer` (OnAdd)。
+     * @returns 注册句柄，`dispose()` 后不再调用
+     */
+    public addInitializeSystem<T extends Component>(
+        componentClass: ClassType<T>, 
+        callback: (entity: Entity, component: T) => void,
+        options?: HookOptions
+    ): Subscription {
+        if (!this.initializeSystems.has(componentClass)) {
+            this.initializeSystems.set(componentClass, new Set());
+        }
+        return this.registerCallback(this.initializeSystems.get(componentClass)!, callback as (entity: Entity, component: Component) => void, options);
+    }
+
+    /**
+     * 添加一个组件销毁系统 (Hook)。
+     * 当指定类型的组件从实体移除时调用。
+     * 对应 Lua 的 `dse.createCompDestroySystem` 或 Bevy 的 `Observer` (OnRemove)。
+     * @returns 注册句柄，`dispose()` 后不再调用
+     */
+    public addDestroySystem<T extends Component>(
+        componentClass: ClassType<T>, 
+        callback: (entity: Entity, component: T) => void,
+        options?: HookOptions
+    ): Subscription {
+        if (!this.destroySystems.has(componentClass)) {
+            this.destroySystems.set(componentClass, new Set());
+        }
+        return this.registerCallback(this.destroySystems.get(componentClass)!, callback as (entity: Entity, component: Component) => void, options);
+    }
+
+    /**
+     * 注册一个全局立即事件观察者 (Observer)。
+     * 当 `trigger` 被调用时，该回调会立即执行。
+     * 对应 Lua 的 `dse.createEventSystem` 或 Bevy 的 `app.observe()`.
+     * @returns 注册句柄，`dispose()` 后不再调用
+     */
+    public addObserver<T extends Event>(
+        eventClass: ClassType<T>,
+        callback: (trigger: Trigger<T>) => void,
+        options?: ObserverOptions
+    ): Subscription {
+        if (!this.globalObservers.has(eventClass)) {
+            this.globalObservers.set(eventClass, new Set());
+        }
+        return this.registerCallback(this.globalObservers.get(eventClass)!, callback, options);
+    }
+
+    /**
+     * 为特定实体注册一个观察者。
+     * `{ capture: true }` 时在捕获阶段 (根 -> 目标) 接收事件。
+     * 实体销毁时自动注销。
+     * @returns 注册句柄，`dispose()` 后不再调用
+     */
+    public addEntityObserver<T extends Event>(
+        entity: Entity,
+        eventClass: ClassType<T>,
+        callback: (trigger: Trigger<T>) => void,
+        options?: ObserverOptions
+    ): Subscription {
+        const observers = options?.capture ? this.captureObservers : this.entityObservers;
+        if (!observers.has(entity)) {
+            observers.set(entity, new Map());
+        }
+        const entityMap = observers.get(entity)!;
+        
+        if (!entityMap.has(eventClass)) {
+            entityMap.set(eventClass, new Set());
+        }
+        return this.registerCallback(entityMap.get(eventClass)!, callback, options);
+    }
+
+    /**
+     * 生成一个观察者实体 (带 `Observer` 组件)。销毁该实体即注销观察者。
+     * 指定 `target` 时观察该实体上触发的事件，否则为全局观察者。
+     * 对应 Bevy 的 `world.spawn(Observer::new(...))`。
+     *
+     * @example
+     * const observer = ecs.observe(DamageEvent, (trigger) => showDamage(trigger.event));
+     * // 关闭界面时
+     * ecs.removeEntity(observer);
+     */
+    public observe<T extends Event>(
+        eventClass: ClassType<T>,
+        callback: (trigger: Trigger<T>) => void,
+        options?: ObserverOptions & { target?: Entity }
+    ): Entity {
+        const observerEntity = this.createEntity();
+        const registerOptions = { ...options, owner: observerEntity };
+        const subscription = options?.target
+            ? this.addEntityObserver(options.target, eventClass, callback, registerOptions)
+            : this.addObserver(eventClass, callback, registerOptions);
+        this.addComponent(observerEntity, new Observer(eventClass, subscription, options?.target));
+        return observerEntity;
+    }
+
+    /**
+     * 把回调 (观察者 / 初始化系统 / 销毁系统) 加入回调集合，处理 `once` 与所属者。
+     * 每次注册都包装为新的函数，同一个回调注册两次时各自的句柄互不影响。
+     */
+    private registerCallback<A extends any[]>(
+        callbacks: Set<(...args: A) => void>,
+        callback: (...args: A) => void,
+        options?: HookOptions
+    ): Subscription {
+        const once = options?.once;
+        const registered = (...args: A) => {
+            if (once) subscription.dispose();
+            callback(...args);
+        };
+        const subscription = this.subscribe(() => callbacks.delete(registered), options?.owner);
+        callbacks.add(registered);
+        return subscription;
+    }
+
+    // --- 兼容旧接口 ---
+
+    public writeEvent(event: Event): void { this.pushEvent(event); }
+    public triggerEvent(event: Event): void { this.trigger(event); }
+    public addEventSystem<T extends Event>(eventClass: ClassType<T>, callback: (event: T) => void): void {
+        // 适配旧回调签名: (event) -> void  适配为 (trigger) -> void
+        this.addObserver(eventClass, (trigger) => callback(trigger.event));
+    }
+
+    // --- 原始 API (保留以兼容现有系统) ---
+
+    public createEntity(): Entity {
+        const entity = this.reserveEntity();
+        this.moveEntity(entity, this.emptyArchetype);
+        return entity;
+    }
+
+    /**
+     * 预留一个实体: 立即分配 ID 并返回实体对象，但不修改任何原型表。
+     * 可以在系统内 (包括遍历 Query 时) 安全调用；实体在第一次插入组件或下一个同步点被放入存储。
+     * 对应 Bevy 的 `Entities::reserve_entity`。
+     */
+    public reserveEntity(): Entity {
+        let index: number;
+        if (this.freeIndices.length > 0) {
+            index = this.freeIndices.pop()!;
+        } else {
+            index = this.nextEntityID++;
+            this.generations[index] = 0;
+        }
+        const entity = new Entity(entityId(index, this.generations[index]), this);
+        this.entities.set(entity.id, entity);
+        entity._archetype = this.reservedEntities;
+        entity._row = this.reservedEntities.entities.length;
+        this.reservedEntities.entities.push(entity);
+        return entity;
+    }
+
+    /**
+     * 批量预留实体。
+     */
+    public reserveEntities(count: number): Entity[] {
+        const entities: Entity[] = [];
+        for (let i = 0; i < count; i++) {
+            entities.push(this.reserveEntity());
+        }
+        return entities;
+    }
+
+    /**
+     * 把所有尚未放入存储的预留实体放入空原型。
+     * 在每个同步点 (`applyCommands`) 自动调用。
+     */
+    public flushReservedEntities(): void {
+        while (this.reservedEntities.size > 0) {
+            this.moveEntity(this.reservedEntities.entities[this.reservedEntities.size - 1], this.emptyArchetype);
+        }
+    }
+
+    /**
+     * 根据 ID 获取存活的实体。ID 已过期 (实体已销毁，或槽位已被复用) 时返回 undefined。
+     */
+    public getEntity(id: EntityId): Entity | undefined {
+        return this.entities.get(id);
+    }
+
+    /**
+     * 检查 ID 对应的实体是否存活。
+     */
+    public isAlive(id: EntityId): boolean {
+        return this.entities.has(id);
+    }
+
+    // 兼容旧别名
+    public addEntity(): Entity { return this.createEntity(); }
+
+    /**
+     * 标记实体待销毁，在 `update()` 末尾统一销毁。
+     * 销毁时依次处理子节点、触发生命周期事件与销毁 Hook、从父节点的 Children 中移除，最后回收 ID。
+     * @param children 子节点的处理方式，默认 `orphan` (子节点成为根节点)
+     * 对应 Bevy 的 `despawn`。
+     */
+    public removeEntity(entity: Entity, children: DespawnChildren = 'orphan'): void {
+        this.entitiesToDestroy.push({ entity, children });
+    }
+
+    public addComponent(entity: Entity, component: Component): void {
+        this.insertBundle(entity, component);
+    }
+
+    /**
+     * 插入组件与组件组 (可嵌套)。
+     * 先按顺序写入全部显式给出的组件，再补齐实体上仍缺少的必需组件 (`static required`)，
+     * 因此显式给出的组件不会被必需组件的默认值覆盖。
+     * 对应 Bevy 的 `EntityWorldMut::insert(bundle)`。
+     */
+    public insertBundle(entity: Entity, ...items: BundleItem[]): void {
+        const components = flattenBundle(items);
+        // 先解析必需组件，存在环时在写入任何组件之前报错
+        const requirements = components.flatMap(component => requiredComponentsOf(component.constructor));
+        // 层级环同样在写入之前检查，避免留下只写了一半的 Parent / Children
+        for (const component of components) {
+            if (component instanceof Parent) assertNoHierarchyCycle(entity, component.value);
+        }
+        for (const component of components) {
+            this.writeComponent(entity, component);
+        }
+        for (const required of requirements) {
+            if (!entity.has(required.type)) {
+                this.writeComponent(entity, required.create());
+            }
+        }
+    }
+
+    /**
+     * 写入单个组件 (新增或替换) 并触发钩子与生命周期事件。
+     */
+    private writeComponent(entity: Entity, component: Component): void {
+        // 已销毁的实体不再接受组件
+        if (entity.destroyed) return;
+        component.entity = entity; // 设置组件的实体引用
+
+        // 变更检测: 替换同类型组件视为修改，否则视为新增
+        const type = component.constructor;
+        const previous = entity.get(type as ClassType<Component>);
+        let added = !previous;
+        component._addedTick = previous ? previous._addedTick : this.changeTick;
+        component._changedTick = this.changeTick;
+
+        if (previous) {
+            // 同类型替换: 原地写入，不迁移原型
+            this.triggerLifecycle(OnReplace, entity, previous, component);
+            // 观察者可能已移除该组件或销毁实体，重新读取所在的列
+            if (entity.destroyed) return;
+            const column = entity._archetype.columns.get(type);
+            if (column) {
+                column[entity._row] = component;
+            } else {
+                added = true;
+                component._addedTick = this.changeTick;
+                this.moveEntity(entity, this.archetypeWithAdded(entity._archetype, type), component);
+            }
+        } else {
+            this.moveEntity(entity, this.archetypeWithAdded(entity._archetype, type), component);
+        }
+
+        // 1. 触发初始化系统 (Lua Style)
+        const callbacks = this.initializeSystems.get(component.constructor);
+        if (callbacks) {
+            for (const callback of callbacks) {
+                callback(entity, component);
+            }
+        }
+
+        // 2. 触发组件静态 Hooks (Bevy Style)
+        const compClass = component.constructor as typeof Component;
+        if (compClass.onAdd) {
+            compClass.onAdd(entity);
+        }
+
+        // 3. 生命周期事件
+        if (added) {
+            this.triggerLifecycle(OnAdd, entity, component);
+        }
+        this.triggerLifecycle(OnInsert, entity, component);
+    }
+
+    /**
+     * 触发组件生命周期事件 (只有在该组件类型的事件类被创建过时才会触发)。
+     */
+    private triggerLifecycle(
+        kind: typeof OnAdd | typeof OnInsert | typeof OnReplace | typeof OnRemove | typeof OnDespawn,
+        entity: Entity,
+        component: Component,
+        newValue?: Component
+    ): void {
+        const type = existingLifecycleEventType(kind, component.constructor);
+        if (!type) return;
+        this.trigger(kind === OnReplace ? new type(component, newValue) : new type(component), entity);
+    }
+
+    public getComponents(entity: Entity): Entity {
+        return entity; // Entity 本身就是容器
+    }
+
+    public removeComponent(entity: Entity, componentClass: Function): void {
+        // 已销毁实体的组件只读
+        if (entity.destroyed || !entity.has(componentClass)) return;
+        // 在移除前获取组件实例以触发销毁系统
+        const component: Component = entity.get(componentClass as any)!;
+        // 回调中再次移除同一组件时忽略，由外层完成移除
+        if (this.removingComponents.has(component)) return;
+        this.removingComponents.add(component);
+        try {
+            this.detachComponent(entity, componentClass, component);
+        } finally {
+            this.removingComponents.delete(component);
+        }
+    }
+
+    /**
+     * 按顺序触发移除回调，然后把组件从实体上移除。
+     */
+    private detachComponent(entity: Entity, componentClass: Function, component: Component): void {
+        this.triggerLifecycle(OnReplace, entity, component);
+
+        // 1. 触发销毁系统 (Lua Style)
+        const callbacks = this.destroySystems.get(componentClass);
+        if (callbacks) {
+            for (const callback of callbacks) {
+                callback(entity, component);
+            }
+        }
+
+        // 2. 触发组件静态 Hooks (Bevy Style)
+        const compClass = componentClass as typeof Component;
+        if (compClass.onRemove) {
+            compClass.onRemove(entity);
+        }
+
+        // 3. 生命周期事件 (组件仍可读取)
+        this.triggerLifecycle(OnRemove, entity, component);
+        // 回调中可能已移除或替换了该组件
+        if (entity.get(componentClass as any) !== component) return;
+
+        this.moveEntity(entity, this.archetypeWithRemoved(entity._archetype, componentClass));
+
+        // 记录移除 (RemovedComponents)
+        if (!this.removedComponents.has(componentClass)) {
+            this.removedComponents.set(componentClass, []);
+        }
+        this.removedComponents.get(componentClass)!.push({ entity, tick: this.changeTick });
+    }
+
+    /**
+     * 添加一个支持 Bevy 风格参数注入的系统。
+     * 
+     * @example
+     * ecs.addSystem(Stage.Update,
+     *   [new Query([Position], [new With(Input)]), new Res(Time)],
+     *   (q, time) => { ... }
+     * );
+     */
+    public addSystem<Args extends any[]>(
+        stage: ScheduleLabel,
+        params: { [K in keyof Args]: SystemParam },
+        systemFn: (...args: Args) => void
+    ): System;
+    /**
+     * 添加一个传统系统 (Class-based)。
+     * 默认添加到 Update 阶段。
+     */
+    public addSystem<S extends System>(system: S): S;
+    /**
+     * 添加一个传统系统到指定阶段。
+     */
+    public addSystem<S extends System>(stage: ScheduleLabel, system: S): S;
+    
+    public addSystem(arg1: any, arg2?: any, arg3?: any): System {
+        let stage: ScheduleLabel = Stage.Update;
+        let system: System | null = null;
+
+        // 重载解析
+        if (isScheduleLabel(arg1) && arg2 instanceof System) {
+            // addSystem(Stage, System)
+            stage = arg1;
+            system = arg2;
+        } else if (arg1 instanceof System) {
+            // addSystem(System) -> Default Update
+            stage = Stage.Update;
+            system = arg1;
+        } else if (isScheduleLabel(arg1) && Array.isArray(arg2) && typeof arg3 === 'function') {
+            // addSystem(Stage, Params, Fn)
+            stage = arg1;
+            const params = arg2 as SystemParam[];
+            const callback = arg3;
+
+            // 1. 注册所有的 Query 参数作为子系统 (用于跟踪实体)
+            for (const param of params) {
+                if (param instanceof Query) {
+                    // Query 只需要被 ECS 跟踪，不需要加入执行列表
+                    this.registerSystem(param);
+                } else if (param instanceof RemovedComponents || param instanceof EventReader || param instanceof EventWriter) {
+                    param.ecs = this;
+                }
+            }
+
+            // 2. 创建一个全局系统来执行回调
+            system = new FunctionSystem(params, callback);
+        } else if (Array.isArray(arg1) && typeof arg2 === 'function') {
+             // 兼容旧的 addSystem(Params, Fn) -> Default Update
+             // 递归调用自己
+             return this.addSystem(Stage.Update, arg1, arg2);
+        }
+
+        if (!system) {
+            throw new Error(`Invalid addSystem arguments`);
+        }
+
+        this.registerSystem(system);
+        const key = scheduleKey(stage);
+        if (!this.systemsByStage.has(key)) {
+            this.systemsByStage.set(key, new Set());
+        }
+        this.systemsByStage.get(key)!.add(system);
+        this._invalidateSchedule();
+        // 插件内添加的系统随插件一起移除
+        if (this.currentPlugin) {
+            const added = system;
+            this.systemSubscriptions.set(added, this.subscribe(() => this.removeSystem(added)));
+        }
+        return system;
     }
 
     /**
-     * 移除一个全局资源。
+     * 内部方法：注册系统以进行实体跟踪。
      */
-    public removeResource(resourceClass: Function): void {
-        this.resources.delete(resourceClass);
+    private registerSystem(system: System): void {
+        if (this.systems.has(system)) return;
+        
+        system.ecs = this;
+        this.systems.set(system, system.isGlobal ? [] : this.archetypes.filter(a => system.matchesArchetype(a)));
+    }
+
+    public removeSystem(system: System): void {
+        // 插件添加的系统: 释放插件持有的句柄，由其回调完成移除
+        const subscription = this.systemSubscriptions.get(system);
+        if (subscription) {
+            this.systemSubscriptions.delete(system);
+            subscription.dispose();
+            return;
+        }
+        this.systems.delete(system);
+        if (system instanceof FunctionSystem) {
+            // 函数式系统的 Query 参数作为子系统注册，需要一并移除
+            for (const param of system.params) {
+                if (param instanceof Query) this.systems.delete(param);
+            }
+        }
+        for (const stageSet of this.systemsByStage.values()) {
+            stageSet.delete(system);
+        }
+        this.getResource(Diagnostics)?._forgetSystem(system);
+        this.conditionReaders.delete(system);
+        this._invalidateSchedule();
     }
 
     /**
-     * 发送一个跨帧缓冲事件 (Buffered)。
-     * 对应 Bevy 的 `EventWriter<T>.send()`。
-     * 新命名: `pushEvent`
+     * 设置系统歧义检测模式 (默认 'ignore')。
+     * 'warn' 输出警告，'error' 在排序时抛出错误。
+     */
+    public setAmbiguityDetection(mode: AmbiguityDetection): void {
+        this.ambiguityDetection = mode;
+        this._invalidateSchedule();
+    }
+
+    /**
+     * 遍历系统匹配的所有原型中的实体。
+     * 供 System.queryTuple 与 Query 使用。
+     * 遍历期间可以修改实体: 每个实体最多产出一次，期间不再匹配或被销毁的实体会被跳过，
+     * 之后新增或新匹配的实体不会被遍历到。
      */
-    public pushEvent(event: Event): void {
-        const type = event.constructor;
-        if (!this.nextFrameEvents.has(type)) {
-            this.nextFrameEvents.set(type, []);
+    public *getSystemEntities(system: System): IterableIterator<Entity> {
+        const archetypes = this.systems.get(system);
+        if (!archetypes) return;
+        const iteration = new EntityIteration(archetypes);
+        this.iterations.add(iteration);
+        try {
+            // 没有结构修改时直接读取原型表
+            outer: for (; iteration.archetypeIndex < archetypes.length; iteration.archetypeIndex++) {
+                const entities = archetypes[iteration.archetypeIndex].entities;
+                for (iteration.row = 0; iteration.row < entities.length; iteration.row++) {
+                    yield entities[iteration.row];
+                    if (iteration.frozen) break outer;
+                }
+            }
+            if (!iteration.frozen) return;
+            for (const entity of iteration.frozen) {
+                if (!entity.destroyed && archetypes.includes(entity._archetype)) {
+                    yield entity;
+                }
+            }
+        } finally {
+            this.iterations.delete(iteration);
         }
-        this.nextFrameEvents.get(type)!.push(event);
     }
 
     /**
-     * 立即触发一个事件 (Immediate / Observer)。
-     * 这会同步调用所有注册了该事件类型的观察者 (包括全局和实体级)。
-     * 对应 Lua 的 `event:trigger()` 或 Bevy 的 `commands.trigger()`.
-     * 支持事件冒泡 (Event Propagation)。
-     * 
-     * @param event 要触发的事件对象
-     * @param target (可选) 目标实体。如果提供，将触发该实体上的观察者，并向上冒泡。
+     * 结构修改前调用: 冻结所有进行中的遍历。
      */
-    public trigger(event: Event, target?: Entity): void {
-        const type = event.constructor;
-        const triggerObj = new Trigger(event, target);
+    private freezeIterations(): void {
+        if (this.iterations.size === 0) return;
+        for (const iteration of this.iterations) iteration.freeze();
+    }
 
-        // 1. 触发实体观察者 (支持冒泡)
-        if (target !== undefined) {
-            let current: Entity | undefined = target;
-            // 向上遍历父节点链
-            while (current) {
-                const entityObsMap = this.entityObservers.get(current);
-                if (entityObsMap) {
-                    const callbacks = entityObsMap.get(type);
-                    if (callbacks) {
-                        for (const callback of callbacks) {
-                            callback(triggerObj);
-                        }
-                    }
+    /**
+     * 获取系统匹配的原型列表。
+     */
+    public getSystemArchetypes(system: System): readonly Archetype[] {
+        return this.systems.get(system) || [];
+    }
+
+    // --- 检视 (Inspection) ---
+
+    /**
+     * 获取 World 的只读快照: 实体、调度与系统、资源、缓冲事件与观察者。
+     * 返回的是普通对象，修改它不会影响 World。
+     * @example console.log(JSON.stringify(ecs.inspect(), null, 2))
+     */
+    public inspect(): WorldInspection {
+        return {
+            tick: this.changeTick,
+            archetypes: this.archetypes.length,
+            entities: this.inspectEntities(),
+            schedules: this.inspectSchedules(),
+            resources: this.inspectResources(),
+            events: this.inspectEvents(),
+            observers: this.inspectObservers(),
+        };
+    }
+
+    /**
+     * 列出所有存活实体及其组件类型。
+     */
+    public inspectEntities(): EntityInspection[] {
+        return [...this.entities.values()].map(entity => ({
+            id: entity.id,
+            index: entity.index,
+            generation: entity.generation,
+            components: entity.getComponentTypes().map(type => type.name),
+            parent: entity.getParent()?.id,
+            children: entity.getChildren().map(child => child.id),
+        }));
+    }
+
+    /**
+     * 列出所有调度及其中的系统 (按执行顺序)。
+     */
+    public inspectSchedules(): ScheduleInspection[] {
+        const schedules: ScheduleInspection[] = [];
+        for (const [key, systems] of this.systemsByStage) {
+            let ordered: System[];
+            try {
+                ordered = this.getSortedSystems(key);
+            } catch {
+                // 存在顺序环时按添加顺序列出
+                ordered = [...systems];
+            }
+            schedules.push({
+                name: scheduleName(key),
+                systems: ordered.map(system => ({
+                    name: systemName(system),
+                    sets: this.collectSets(system).map(set => set.name),
+                    matchedEntities: this.countMatchedEntities(system),
+                    lastRunTick: system.lastRunTick,
+                })),
+            });
+        }
+        return schedules;
+    }
+
+    /**
+     * 列出所有资源的类型名称。
+     */
+    public inspectResources(): string[] {
+        return [...this.resources.keys()].map(type => type.name);
+    }
+
+    /**
+     * 列出所有缓冲事件存储。
+     */
+    public inspectEvents(): EventInspection[] {
+        return [...this.events].map(([type, events]) => ({ type: type.name, pending: events.length, nextId: events.nextId }));
+    }
+
+    /**
+     * 列出所有观察者 (全局、实体与捕获阶段)。
+     */
+    public inspectObservers(): ObserverInspection[] {
+        const result: ObserverInspection[] = [];
+        for (const [type, callbacks] of this.globalObservers) {
+            if (callbacks.size > 0) result.push({ event: type.name, capture: false, count: callbacks.size });
+        }
+        for (const [observers, capture] of [[this.entityObservers, false], [this.captureObservers, true]] as const) {
+            for (const [entity, byType] of observers) {
+                for (const [type, callbacks] of byType) {
+                    if (callbacks.size > 0) result.push({ event: type.name, target: entity.id, capture, count: callbacks.size });
                 }
-                // 获取父节点继续冒泡
-                current = current.get(Parent)?.value;
             }
         }
+        return result;
+    }
+
+    /**
+     * 生成用于错误报告的 World 转储: 检视结果，以及存在 `Diagnostics` 资源时的诊断统计。
+     * @param format `text` (默认，可读文本) 或 `json`
+     */
+    public dump(format: 'text' | 'json' = 'text'): string {
+        const inspection = this.inspect();
+        const diagnostics = this.getResource(Diagnostics);
+        if (format === 'json') {
+            return JSON.stringify({ ...inspection, diagnostics: diagnostics?.toJSON() }, null, 2);
+        }
 
-        // 2. 触发全局观察者
-        const globalCallbacks = this.globalObservers.get(type);
-        if (globalCallbacks) {
-            for (const callback of globalCallbacks) {
-                callback(triggerObj);
+        const lines = [`World (tick ${inspection.tick}, ${inspection.entities.length} entities, ${inspection.archetypes} archetypes)`];
+        lines.push(`Schedules:`);
+        for (const schedule of inspection.schedules) {
+            if (schedule.systems.length === 0) continue;
+            lines.push(`  ${schedule.name}`);
+            for (const system of schedule.systems) {
+                const sets = system.sets.length > 0 ? ` [${system.sets.join(', ')}]` : '';
+                lines.push(`    ${system.name}${sets}: ${system.matchedEntities} entities`);
             }
         }
+        lines.push(`Resources: ${inspection.resources.join(', ')}`);
+        lines.push(`Events:`);
+        for (const event of inspection.events) {
+            lines.push(`  ${event.type}: ${event.pending} pending (next id ${event.nextId})`);
+        }
+        lines.push(`Observers:`);
+        for (const observer of inspection.observers) {
+            const target = observer.target === undefined ? 'global' : `entity ${observer.target}`;
+            lines.push(`  ${observer.event} (${target}${observer.capture ? ', capture' : ''}): ${observer.count}`);
+        }
+        lines.push(`Entities:`);
+        for (const entity of inspection.entities) {
+            const parent = entity.parent === undefined ? '' : ` parent ${entity.parent}`;
+            lines.push(`  ${entity.id} (${entity.index}v${entity.generation})${parent}: ${entity.components.join(', ')}`);
+        }
+        if (diagnostics) {
+            lines.push(`Diagnostics:`, ...diagnostics.toText().split('\n').map(line => `  ${line}`));
+        }
+        return lines.join('\n');
     }
 
     /**
-     * 递归销毁实体及其所有子节点。
-     * 对应 Bevy 的 `despawn_recursive`。
+     * 系统 (函数式系统为其全部 Query 参数) 当前匹配的不重复实体数量。
      */
-    public despawnRecursive(entity: Entity): void {
-        // 1. 获取所有子节点 (复制列表以防修改)
-        const children = entity.get(Children)?.value;
-        if (children) {
-            for (const child of [...children]) {
-                this.despawnRecursive(child);
+    private countMatchedEntities(system: System): number {
+        const queries = system instanceof FunctionSystem
+            ? system.params.filter((param): param is Query<any> => param instanceof Query)
+            : [system];
+        if (queries.length === 1) {
+            return this.getSystemArchetypes(queries[0]).reduce((sum, archetype) => sum + archetype.size, 0);
+        }
+        const entities = new Set<Entity>();
+        for (const query of queries) {
+            for (const entity of this.getSystemEntities(query)) entities.add(entity);
+        }
+        return entities.size;
+    }
+
+    /**
+     * 当前存储在原型表中的组件总数。
+     */
+    private countComponents(): number {
+        return this.archetypes.reduce((sum, archetype) => sum + archetype.size * archetype.types.length, 0);
+    }
+
+    // --- 快照与回放 (Snapshot & Replay) ---
+
+    /**
+     * 在内存中捕获整个 World 的状态 (不经过 JSON)，用于回滚网络同步与回放调试。
+     * 包括: 所有实体的组件 (深拷贝)、层级、实体 ID 分配器、待销毁队列、参与回滚的资源、状态、
+     * 事件缓冲区、系统持有的 `EventReader` 以及 `onEvent` 运行条件的游标。
+     * 不包括: 系统的局部状态、观察者、协程 / 生成器的执行进度、`static rollback = false` 的资源，
+     * 以及系统之外自行创建的 `EventReader` (如手动 `new EventReader(ecs, T)`、协程中的 `waitForEvent`)。
+     * 这些读取器的游标在恢复后不会回退: 快照时仍在缓冲区中、之后已被它们读过的事件，恢复后不会再次读到。
+     * @param frame 快照对应的帧号，默认 `Time.frameCount`
+     */
+    public snapshot(frame = this.getResource(Time)?.frameCount ?? 0): WorldSnapshot {
+        this.flushReservedEntities();
+        const memo = new Map<any, any>();
+
+        const resources = new Map<Function, Resource>();
+        for (const [type, resource] of this.resources) {
+            if (isRollbackType(type)) resources.set(type, snapshotClone(resource, memo));
+        }
+
+        const tables: TableSnapshot[] = [];
+        for (const archetype of this.archetypes) {
+            if (archetype.size === 0) continue;
+            const columns = new Map<Function, Component[]>();
+            for (const [type, column] of archetype.columns) {
+                columns.set(type, column.map(component => snapshotClone(component, memo)));
+            }
+            tables.push({ archetype, entities: archetype.entities.slice(), columns });
+        }
+
+        const events = new Map<Function, EventsState<any>>();
+        for (const [type, store] of this.events) {
+            events.set(type, store._save());
+        }
+        const readerCursors = new Map<EventReader<any>, EventId>();
+        for (const reader of this.systemEventReaders()) {
+            readerCursors.set(reader, reader._cursor);
+        }
+        const states: SnapshotData['states'] = new Map();
+        for (const [type, entry] of this.states) {
+            states.set(type, { current: entry.state.get(), pending: entry.next.pending, entered: entry.entered });
+        }
+
+        return new WorldSnapshot(frame, {
+            tables,
+            nextEntityID: this.nextEntityID,
+            generations: this.generations.slice(),
+            freeIndices: this.freeIndices.slice(),
+            entitiesToDestroy: this.entitiesToDestroy.slice(),
+            resources,
+            events,
+            readerCursors,
+            states,
+        });
+    }
+
+    /**
+     * 把 World 恢复到快照时的状态。同一快照可以恢复多次。
+     * 恢复不触发任何生命周期钩子或观察者: 快照之后创建的实体被直接丢弃，之后销毁的实体以原对象复活
+     * (但其观察者已在销毁时注销，不会恢复)。恢复的组件都会被视为已修改 (`Changed`)。
+     */
+    public restore(snapshot: WorldSnapshot): void {
+        const data = snapshot._data;
+        this.flushReservedEntities();
+        this.freezeIterations();
+        const memo = new Map<any, any>();
+
+        // 1. 资源: 原地恢复，保持外部持有的引用有效
+        for (const type of [...this.resources.keys()]) {
+            if (isRollbackType(type) && !data.resources.has(type)) this.resources.delete(type);
+        }
+        for (const [type, saved] of data.resources) {
+            const current = this.resources.get(type);
+            if (!current) {
+                this.resources.set(type, snapshotClone(saved, memo));
+                continue;
+            }
+            memo.set(saved, current);
+            for (const key of Object.keys(current)) delete (current as any)[key];
+            for (const key of Object.keys(saved)) (current as any)[key] = snapshotClone((saved as any)[key], memo);
+        }
+
+        // 2. 丢弃快照之后创建的实体
+        const restored = new Set<Entity>();
+        for (const table of data.tables) {
+            for (const entity of table.entities) restored.add(entity);
+        }
+        for (const entity of [...this.entities.values()]) {
+            if (restored.has(entity)) continue;
+            entity.destroyed = true;
+            this.entityObservers.delete(entity);
+            this.captureObservers.delete(entity);
+            this.disposeOwner(entity);
+            attachedParents.delete(entity);
+            // 组件转入实体自身；原型表随后整体重建，无需逐个移出
+            this.detachEntity(entity, false);
+        }
+
+        // 3. 按快照中的顺序重建原型表 (保持遍历顺序一致)
+        for (const archetype of this.archetypes) {
+            archetype.entities.length = 0;
+            for (const column of archetype.columns.values()) column.length = 0;
+        }
+        this.entities.clear();
+        for (const table of data.tables) {
+            const archetype = table.archetype;
+            for (const entity of table.entities) {
+                entity.destroyed = false;
+                entity._detached = undefined;
+                entity._archetype = archetype;
+                entity._row = archetype.entities.length;
+                archetype.entities.push(entity);
+                this.entities.set(entity.id, entity);
+            }
+            for (const [type, column] of table.columns) {
+                const target = archetype.columns.get(type)!;
+                for (const component of column) {
+                    const copy = snapshotClone(component, memo);
+                    copy._changedTick = this.changeTick;
+                    target.push(copy);
+                }
+            }
+        }
+        for (const entity of this.entities.values()) {
+            const parent = entity.get(Parent);
+            if (parent) attachedParents.set(entity, parent.value);
+            else attachedParents.delete(entity);
+        }
+
+        // 4. 实体簿记
+        this.nextEntityID = data.nextEntityID;
+        this.generations = data.generations.slice();
+        this.freeIndices = data.freeIndices.slice();
+        this.entitiesToDestroy = data.entitiesToDestroy.slice();
+        this.removedComponents.clear();
+
+        // 5. 事件与读取器游标
+        for (const [type, store] of this.events) {
+            if (!data.events.has(type)) store.clear();
+        }
+        for (const [type, saved] of data.events) {
+            this.getEvents(type as ClassType<Event>)._load(saved);
+        }
+        for (const [reader, cursor] of data.readerCursors) {
+            reader._cursor = cursor;
+        }
+
+        // 6. 状态
+        for (const [type, saved] of data.states) {
+            const entry = this.states.get(type);
+            if (!entry) continue;
+            entry.state._set(saved.current);
+            entry.next.pending = saved.pending;
+            entry.entered = saved.entered;
+        }
+        this.changeTick++;
+    }
+
+    /**
+     * 计算 World 的校验和 (FNV-1a 32 位)，用于检测回放 / 多端模拟是否发生分歧。
+     * 按实体 ID 与组件类型名称排序，结果不依赖原型表的存储顺序。实体引用按 ID 计入，函数被忽略。
+     * @param options.resources 是否计入参与回滚的资源 (默认否；`Time` 等依赖真实时钟的资源会使结果不确定)
+     */
+    public checksum(options: { resources?: boolean } = {}): number {
+        this.flushReservedEntities();
+        const registry = this.getResource(TypeRegistry);
+        const writer = new ChecksumWriter();
+        const byName = (types: Iterable<Function>) => [...types]
+            .map(type => ({ type, name: checksumTypeName(type, registry) }))
+            .sort((a, b) => a.name < b.name ? -1 : a.name > b.name ? 1 : 0);
+
+        const entities = [...this.entities.values()].sort((a, b) => a.id - b.id);
+        for (const entity of entities) {
+            writer.write(`#${entity.id}`);
+            for (const { type, name } of byName(entity.getComponentTypes())) {
+                writer.write(name);
+                writer.value(entity.get(type as ClassType<Component>));
+            }
+        }
+        if (options.resources) {
+            for (const { type, name } of byName([...this.resources.keys()].filter(isRollbackType))) {
+                writer.write(`$${name}`);
+                writer.value(this.resources.get(type));
+            }
+        }
+        return writer.hash;
+    }
+
+    /**
+     * 已注册系统持有的事件读取器 (函数式系统的参数与系统对象上的字段)，以及运行条件 (`onEvent`) 的读取器。
+     */
+    private *systemEventReaders(): IterableIterator<EventReader<any>> {
+        for (const system of this.systems.keys()) {
+            const candidates = system instanceof FunctionSystem ? system.params : Object.values(system);
+            for (const candidate of candidates) {
+                if (candidate instanceof EventReader) yield candidate;
+            }
+        }
+        for (const readers of this.conditionReaders.values()) {
+            yield* readers.values();
+        }
+    }
+
+    /**
+     * 运行 PreStartup / Startup / PostStartup 阶段的系统。
+     * 应在游戏循环开始前调用一次。会先完成所有插件的 finish/cleanup。
+     */
+    public startup(): void {
+        this.started = true;
+        this.finishPlugins();
+        this.applyStateTransitions();
+        this.runStage(Stage.PreStartup);
+        this.runStage(Stage.Startup);
+        this.runStage(Stage.PostStartup);
+    }
+
+    /**
+     * 立即运行一个调度中的全部系统 (按顺序约束排序，每个系统后应用命令)。
+     * 主要用于用户自定义调度，例如编辑器或回合制战斗自行驱动的调度；也可以单独运行某个内置阶段。
+     * 调度不能在自身运行期间被再次运行。
+     * 对应 Bevy 的 `World::run_schedule`。
+     * @example ecs.runSchedule('CombatTurn')
+     */
+    public runSchedule(label: ScheduleLabel): void {
+        const key = scheduleKey(label);
+        if (this.runningSchedules.has(key)) {
+            throw new Error(`Schedule ${scheduleName(key)} is already running`);
+        }
+        this.runningSchedules.add(key);
+        try {
+            this.runStage(key);
+        } finally {
+            this.runningSchedules.delete(key);
+        }
+    }
+
+    /**
+     * 调度是否注册过系统 (内置阶段总是存在)。
+     */
+    public hasSchedule(label: ScheduleLabel): boolean {
+        return this.systemsByStage.has(scheduleKey(label));
+    }
+
+    /**
+     * 设置 `tick()` 使用的时钟 (默认 RealClock)。测试中可使用 VirtualClock。
+     */
+    public setClock(clock: Clock): void {
+        this.clock = clock;
+        this.lastClockTime = undefined;
+        this.lastFrameStart = undefined;
+    }
+
+    /**
+     * 驱动一帧: 推进 Time，按固定步长运行 0 次或多次 FixedUpdate，再运行 Update。
+     * 第一次调用前若尚未 `startup()`，会自动运行。
+     * @param realDelta (可选) 本帧真实经过的时间 (秒)。省略时从时钟读取。
+     *
+     * @example
+     * function loop() { ecs.tick(); requestAnimationFrame(loop); }
+     */
+    public tick(realDelta?: number): void {
+        if (!this.started) {
+            this.startup();
+        }
+
+        if (realDelta === undefined) {
+            const now = this.clock.now();
+            realDelta = this.lastClockTime === undefined ? 0 : now - this.lastClockTime;
+            this.lastClockTime = now;
+        }
+
+        const time = this.getSingleComp(Time);
+        const fixed = this.getSingleComp(FixedTime);
+        if (!(fixed.step > 0)) {
+            throw new Error(`FixedTime.step must be greater than 0, got ${fixed.step}`);
+        }
+        time._advance(realDelta);
+
+        // 固定步长累加器
+        fixed.accumulator += time.deltaTime;
+        fixed.stepsThisFrame = 0;
+        // FixedUpdate 期间 Time 表示固定时间 (对应 Bevy 在 FixedMain 中把 Time 切换为 Time<Fixed>)
+        const frameDelta = time.deltaTime;
+        const frameElapsed = time.elapsedTime;
+        try {
+            while (fixed.accumulator >= fixed.step && fixed.stepsThisFrame < fixed.maxSteps) {
+                fixed.accumulator -= fixed.step;
+                fixed.elapsedTime += fixed.step;
+                fixed.stepsThisFrame++;
+                time.deltaTime = fixed.step;
+                time.elapsedTime = fixed.elapsedTime;
+                this.fixedUpdate();
+            }
+        } finally {
+            time.deltaTime = frameDelta;
+            time.elapsedTime = frameElapsed;
+        }
+        // 追赶上限: 丢弃无法消化的积压时间，避免死亡螺旋
+        if (fixed.accumulator >= fixed.step) {
+            fixed.accumulator %= fixed.step;
+        }
+        fixed.alpha = fixed.accumulator / fixed.step;
+
+        this.update();
+    }
+
+    /**
+     * 运行 FixedUpdate 阶段的系统。
+     * 通常由 `tick()` 按固定步长调用，也可以在自己的物理循环中手动调用。
+     */
+    public fixedUpdate(): void {
+        this.runStage(Stage.FixedPreUpdate);
+        this.runStage(Stage.FixedUpdate);
+        this.runStage(Stage.FixedPostUpdate);
+    }
+
+    /**
+     * 运行 First / PreUpdate / Update / PostUpdate / Last 阶段的系统。
+     * 应在每帧调用。
+     */
+    public update(): void {
+        const frameStart = this.clock.now();
+
+        // 1. 事件进入新周期 (丢弃两个周期之前的事件)
+        for (const events of this.events.values()) {
+            events.update();
+        }
+
+        // 清理两次 update 之前的组件移除记录
+        const cutoff = this.lastUpdateTick;
+        this.lastUpdateTick = this.changeTick;
+        for (const [type, records] of this.removedComponents) {
+            const kept = records.filter(r => r.tick > cutoff);
+            if (kept.length > 0) {
+                this.removedComponents.set(type, kept);
+            } else {
+                this.removedComponents.delete(type);
+            }
+        }
+
+        // 2. 运行 First / PreUpdate 阶段系统
+        this.runStage(Stage.First);
+        this.runStage(Stage.PreUpdate);
+
+        // 3. 应用状态切换 (OnExit -> OnTransition -> OnEnter)
+        this.applyStateTransitions();
+
+        // 4. 运行 Update / PostUpdate / Last 阶段系统
+        this.runStage(Stage.Update);
+        this.runStage(Stage.PostUpdate);
+        this.runStage(Stage.Last);
+
+        // 5. 移除标记为删除的实体
+        while (this.entitiesToDestroy.length > 0) {
+            const { entity, children } = this.entitiesToDestroy.pop()!;
+            this.destroyEntity(entity, children);
+        }
+
+        // 6. 诊断: 帧时间为两次 update 开始之间的间隔
+        const diagnostics = this.getResource(Diagnostics);
+        if (diagnostics) {
+            const frameTime = this.lastFrameStart === undefined ? undefined : (frameStart - this.lastFrameStart) * 1000;
+            diagnostics._recordFrame(frameTime, this.entities.size, this.countComponents(), this.archetypes.length);
+        }
+        this.lastFrameStart = frameStart;
+    }
+
+    private runStage(stage: Stage | string): void {
+        if (!this.systemsByStage.has(stage)) return;
+        const systems = this.getSortedSystems(stage);
+
+        // 集合级运行条件每次阶段运行只求值一次
+        const setResults = new Map<SystemSet, boolean>();
+        const setPasses = (set: SystemSet): boolean => {
+            let result = setResults.get(set);
+            if (result === undefined) {
+                result = this.evaluateConditions(set, this.setConfig(set).runConditions);
+                setResults.set(set, result);
+            }
+            return result;
+        };
+
+        const diagnostics = this.getResource(Diagnostics);
+        for (const system of systems) {
+            // 检查运行条件 (系统自身及其所属集合)
+            if (!this.evaluateConditions(system, system.runConditions)) continue;
+            if (!this.collectSets(system).every(setPasses)) continue;
+
+            // 构造组件元组迭代器
+            const componentIterator = {
+                *[Symbol.iterator]() {
+                    const reqs = system.componentsRequired;
+                    const entities = system.ecs.getSystemEntities(system);
+                    
+                    for (const entity of entities) {
+                        const tuple = reqs.map(cls => entity.get(cls as any)!);
+                        yield tuple;
+                    }
+                }
+            };
+            
+            // 系统运行期间的修改记录为 changeTick，运行结束后推进 Tick
+            this.changeTick++;
+            const start = diagnostics ? diagnostics.clock.now() : 0;
+            // @ts-ignore
+            system.update(componentIterator);
+            if (diagnostics) {
+                diagnostics._recordSystem(system, scheduleName(stage), (diagnostics.clock.now() - start) * 1000);
             }
+            system.lastRunTick = this.changeTick;
+            this.changeTick++;
+
+            // 同步点: 应用系统记录的命令
+            this.applyCommands();
+        }
+
+        // 同步点: 应用阶段内 (如运行条件中) 记录的剩余命令
+        this.applyCommands();
+    }
+
+    /**
+     * 求值系统 / 集合的运行条件 (短路)，期间记录所属者，供条件保存各自的状态。
+     */
+    private evaluateConditions(owner: System | SystemSet, conditions: Condition[]): boolean {
+        const previous = this.conditionOwner;
+        this.conditionOwner = owner;
+        try {
+            return conditions.every(condition => condition(this));
+        } finally {
+            this.conditionOwner = previous;
+        }
+    }
+
+    /**
+     * 内部方法：获取运行条件在本 World 中、对当前求值的系统 / 集合持有的事件读取器。
+     * @param key 条件的标识 (每次创建条件时生成)
+     */
+    public _conditionEventReader<T extends Event>(key: object, eventClass: ClassType<T>): EventReader<T> {
+        let readers = this.conditionReaders.get(this.conditionOwner);
+        if (!readers) {
+            readers = new Map();
+            this.conditionReaders.set(this.conditionOwner, readers);
+        }
+        let reader = readers.get(key);
+        if (!reader) {
+            reader = new EventReader(this, eventClass);
+            readers.set(key, reader);
+        }
+        return reader;
+    }
+
+    /**
+     * 获取阶段内按顺序约束拓扑排序后的系统列表 (带缓存)。
+     */
+    private getSortedSystems(stage: Stage | string): System[] {
+        let sorted = this.sortedStages.get(stage);
+        // 集合可能在 World 之外被修改，按排序时记录的版本号校验
+        if (sorted && [...sorted.setVersions].some(([set, version]) => set._version !== version)) {
+            sorted = undefined;
+        }
+        if (!sorted) {
+            const setVersions = new Map<SystemSet, number>();
+            sorted = { systems: this.sortSystems(stage, setVersions), setVersions };
+            this.sortedStages.set(stage, sorted);
         }
-        // 2. 销毁自己
-        this.removeEntity(entity);
+        return sorted.systems;
     }
 
     /**
-     * 读取上一帧发送的事件。
-     * 对应 Bevy 的 `EventReader<T>`。
+     * 内部方法：使本 World 所有阶段的排序缓存失效 (系统的顺序约束变化时调用)。
      */
-    public readEvents<T extends Event>(eventClass: ClassType<T>): Iterable<T> {
-        return (this.eventQueues.get(eventClass) as T[]) || [];
+    public _invalidateSchedule(): void {
+        this.sortedStages.clear();
     }
 
     /**
-     * 获取特定类型事件的数量 (上一帧)。
+     * 获取集合在本 World 中的配置。
+     * 插件导出的共用集合 (`shared`) 在每个 World 中有独立的配置，对返回值调用 `runIf` / `before` / `after`
+     * 只影响本 World；普通集合直接返回自身。
+     * 对应 Bevy 的 `app.configure_sets()`。
+     * @example ecs.configureSet(TransformSystems).runIf(not(resourceExists(Paused)));
      */
-    public eventCount(eventClass: Function): number {
-        return this.eventQueues.get(eventClass)?.length || 0;
+    public configureSet(set: SystemSet): SystemSet {
+        const label = this.setLabel(set);
+        if (!label.shared) return label;
+        let config = this.configuredSets.get(label);
+        if (!config) {
+            config = new SystemSet(label.name);
+            this.configuredSets.set(label, config);
+            this.setLabels.set(config, label);
+            this._invalidateSchedule();
+        }
+        return config;
     }
 
     /**
-     * 查询拥有特定组件的所有实体。
-     * 对应 Bevy 的 `Query<T>`。
-     * 优化: 使用 componentsByType 索引，复杂度从 O(N) 降低到 O(M) (M为该组件数量)。
+     * 集合标签 (把 `configureSet` 返回的配置映射回共用集合)。
      */
-    public query<T extends Component>(componentClass: ClassType<T>): Iterable<T> {
-        return (this.componentsByType.get(componentClass) as Set<T>) || [];
+    private setLabel(set: SystemSet): SystemSet {
+        return this.setLabels.get(set) ?? set;
     }
 
     /**
-     * 获取特定类型的所有组件。
-     * 对应 Lua ECS 的 `dse.getComps(compType)`。
-     * 别名: `query`
+     * 集合在本 World 中生效的配置。
      */
-    public getComps<T extends Component>(componentClass: ClassType<T>): Iterable<T> {
-        return this.query(componentClass);
+    private setConfig(set: SystemSet): SystemSet {
+        return this.configuredSets.get(set) ?? set;
     }
 
     /**
-     * 添加一个组件初始化系统 (Hook)。
-     * 当指定类型的组件被添加到实体时调用。
-     * 对应 Lua 的 `dse.createCompInitializeSystem` 或 Bevy 的 `Observer` (OnAdd)。
+     * 获取系统 / 集合所属的全部集合标签 (包含嵌套的父集合)。
      */
-    public addInitializeSystem<T extends Component>(
-        componentClass: ClassType<T>, 
-        callback: (entity: Entity, component: T) => void
-    ): void {
-        if (!this.initializeSystems.has(componentClass)) {
-            this.initializeSystems.set(componentClass, new Set());
+    private collectSets(target: System | SystemSet): SystemSet[] {
+        const result: SystemSet[] = [];
+        const stack = [...target.sets];
+        while (stack.length > 0) {
+            const set = this.setLabel(stack.pop()!);
+            if (result.includes(set)) continue;
+            result.push(set);
+            stack.push(...this.setConfig(set).sets);
         }
-        this.initializeSystems.get(componentClass)!.add(callback as any);
+        return result;
     }
 
     /**
-     * 添加一个组件销毁系统 (Hook)。
-     * 当指定类型的组件从实体移除时调用。
-     * 对应 Lua 的 `dse.createCompDestroySystem` 或 Bevy 的 `Observer` (OnRemove)。
+     * 按 before/after/chain 约束对阶段内的系统做拓扑排序。
+     * 没有约束的系统保持添加顺序。存在环时抛出错误，并按歧义检测模式报告歧义。
      */
-    public addDestroySystem<T extends Component>(
-        componentClass: ClassType<T>, 
-        callback: (entity: Entity, component: T) => void
-    ): void {
-        if (!this.destroySystems.has(componentClass)) {
-            this.destroySystems.set(componentClass, new Set());
+    private sortSystems(stage: Stage | string, setVersions: Map<SystemSet, number>): System[] {
+        const systems = [...(this.systemsByStage.get(stage) || [])];
+        const index = new Map<System, number>(systems.map((system, i) => [system, i]));
+        const setsOf = systems.map(system => new Set(this.collectSets(system)));
+        const successors: Set<number>[] = systems.map(() => new Set());
+
+        const resolve = (target: SystemTarget): number[] => {
+            if (target instanceof SystemSet) {
+                const label = this.setLabel(target);
+                return systems.map((_, i) => i).filter(i => setsOf[i].has(label));
+            }
+            const i = index.get(target);
+            return i === undefined ? [] : [i];
+        };
+        const addEdges = (from: number[], to: number[]) => {
+            for (const a of from) {
+                for (const b of to) {
+                    if (a !== b) successors[a].add(b);
+                }
+            }
+        };
+
+        const allSets = new Set<SystemSet>();
+        systems.forEach((system, i) => {
+            for (const target of system.beforeTargets) addEdges([i], resolve(target));
+            for (const target of system.afterTargets) addEdges(resolve(target), [i]);
+            for (const set of setsOf[i]) allSets.add(set);
+        });
+        for (const set of allSets) {
+            const config = this.setConfig(set);
+            setVersions.set(set, set._version);
+            setVersions.set(config, config._version);
+            const members = resolve(set);
+            for (const target of config.beforeTargets) addEdges(members, resolve(target));
+            for (const target of config.afterTargets) addEdges(resolve(target), members);
+            if (config.chained) {
+                for (let k = 1; k < members.length; k++) addEdges([members[k - 1]], [members[k]]);
+            }
+        }
+
+        // Kahn 算法，入度为 0 的节点中优先选择添加顺序靠前的
+        const inDegree = systems.map(() => 0);
+        for (const succ of successors) {
+            for (const b of succ) inDegree[b]++;
+        }
+        const order: number[] = [];
+        const done = new Set<number>();
+        while (order.length < systems.length) {
+            let next = -1;
+            for (let i = 0; i < systems.length; i++) {
+                if (!done.has(i) && inDegree[i] === 0) {
+                    next = i;
+                    break;
+                }
+            }
+            if (next === -1) {
+                throw new Error(`System order cycle in schedule ${scheduleName(stage)}: ${this.findCycle(systems, successors, done)}`);
+            }
+            done.add(next);
+            order.push(next);
+            for (const b of successors[next]) inDegree[b]--;
         }
-        this.destroySystems.get(componentClass)!.add(callback as any);
+
+        if (this.ambiguityDetection !== 'ignore') {
+            this.reportAmbiguities(stage, systems, order, successors);
+        }
+        return order.map(i => systems[i]);
     }
 
     /**
-     * 注册一个全局立即事件观察者 (Observer)。
-     * 当 `trigger` 被调用时，该回调会立即执行。
-     * 对应 Lua 的 `dse.createEventSystem` 或 Bevy 的 `app.observe()`.
+     * 在未完成排序的节点中找出一个环，返回可读的系统名称路径。
+     * 沿前驱回溯: 剩余节点的入度都不为 0，总有未完成的前驱；而后继可能已全部排好 (只位于环的下游)。
      */
-    public addObserver<T extends Event>(
-        eventClass: ClassType<T>,
-        callback: (trigger: Trigger<T>) => void
-    ): void {
-        if (!this.globalObservers.has(eventClass)) {
-            this.globalObservers.set(eventClass, new Set());
+    private findCycle(systems: System[], successors: Set<number>[], done: Set<number>): string {
+        let current = systems.findIndex((_, i) => !done.has(i));
+        const path: number[] = [];
+        while (!path.includes(current)) {
+            path.push(current);
+            const target = current;
+            current = systems.findIndex((_, i) => !done.has(i) && successors[i].has(target));
         }
-        this.globalObservers.get(eventClass)!.add(callback as any);
+        const cycle = path.slice(path.indexOf(current)).concat(current).reverse();
+        return cycle.map(i => systemName(systems[i])).join(' -> ');
     }
 
     /**
-     * 为特定实体注册一个观察者。
+     * 报告没有顺序约束但访问了相同组件 / 资源的系统对。
      */
-    public addEntityObserver<T extends Event>(
-        entity: Entity,
-        eventClass: ClassType<T>,
-        callback: (trigger: Trigger<T>) => void
-    ): void {
-        if (!this.entityObservers.has(entity)) {
-            this.entityObservers.set(entity, new Map());
-        }
-        const entityMap = this.entityObservers.get(entity)!;
-        
-        if (!entityMap.has(eventClass)) {
-            entityMap.set(eventClass, new Set());
+    private reportAmbiguities(stage: Stage | string, systems: System[], order: number[], successors: Set<number>[]): void {
+        // 按拓扑逆序计算可达集合
+        const reachable: Set<number>[] = systems.map(() => new Set());
+        for (let k = order.length - 1; k >= 0; k--) {
+            const a = order[k];
+            for (const b of successors[a]) {
+                reachable[a].add(b);
+                for (const c of reachable[b]) reachable[a].add(c);
+            }
         }
-        entityMap.get(eventClass)!.add(callback as any);
-    }
 
-    // --- 兼容旧接口 ---
+        const access = systems.map(systemAccess);
+        const messages: string[] = [];
+        for (let a = 0; a < systems.length; a++) {
+            for (let b = a + 1; b < systems.length; b++) {
+                if (reachable[a].has(b) || reachable[b].has(a)) continue;
+                const shared = [...access[a]].filter(type => access[b].has(type));
+                if (shared.length > 0) {
+                    messages.push(`${systemName(systems[a])} and ${systemName(systems[b])} both access [${shared.map(t => t.name).join(', ')}]`);
+                }
+            }
+        }
+        if (messages.length === 0) return;
 
-    public writeEvent(event: Event): void { this.pushEvent(event); }
-    public triggerEvent(event: Event): void { this.trigger(event); }
-    public addEventSystem<T extends Event>(eventClass: ClassType<T>, callback: (event: T) => void): void {
-        // 适配旧回调签名: (event) -> void  适配为 (trigger) -> void
-        this.addObserver(eventClass, (trigger) => callback(trigger.event));
+        const report = `Ambiguous system order in schedule ${scheduleName(stage)}:\n  ${messages.join('\n  ')}`;
+        if (this.ambiguityDetection === 'error') {
+            throw new Error(report);
+        }
+        console.warn(report);
     }
 
-    // --- 原始 API (保留以兼容现有系统) ---
-
-    public createEntity(): Entity {
-        let id = this.nextEntityID;
-        this.nextEntityID++;
-        const entity = new Entity(id, this);
-        this.entities.set(id, entity);
-        return entity;
-    }
+    /**
+     * 应用所有待处理的状态切换。
+     * 首次调用时会为新初始化的状态运行 OnEnter(初始状态)。
+     */
+    private applyStateTransitions(): void {
+        for (const entry of this.states.values()) {
+            const { state, next } = entry;
+            if (!entry.entered) {
+                entry.entered = true;
+                this.runStage(new OnEnter(state.type, state.get()).key);
+            }
 
-    // 兼容旧别名
-    public addEntity(): Entity { return this.createEntity(); }
+            const target = next.pending;
+            if (target === undefined) continue;
+            next.reset();
 
-    public removeEntity(entity: Entity): void {
-        this.entitiesToDestroy.push(entity);
-    }
+            const exited = state.get();
+            if (exited === target) continue;
+            state._set(target);
 
-    public addComponent(entity: Entity, component: Component): void {
-        component.entity = entity; // 设置组件的实体引用
-        entity._addComponentDirectly(component);
-        
-        // 更新组件索引
-        const type = component.constructor;
-        if (!this.componentsByType.has(type)) {
-            this.componentsByType.set(type, new Set());
+            this.runStage(new OnExit(state.type, exited).key);
+            // 立即销毁属于旧状态的实体，OnTransition / OnEnter 中已看不到它们
+            for (const scoped of [...this.query(StateScoped)]) {
+                if (scoped.type === state.type && scoped.value === exited && !scoped.isDestroyed()) {
+                    this.destroyEntity(scoped.entity, 'recursive');
+                }
+            }
+            this.runStage(new OnTransition(state.type, exited, target).key);
+            this.runStage(new OnEnter(state.type, target).key);
+            this.pushEvent(new StateTransitionEvent(state.type, exited, target));
         }
-        this.componentsByType.get(type)!.add(component);
+    }
 
-        this.checkE(entity);
+    // --- 私有辅助方法 ---
 
-        // 1. 触发初始化系统 (Lua Style)
-        const callbacks = this.initializeSystems.get(component.constructor);
-        if (callbacks) {
-            for (const callback of callbacks) {
-                callback(entity, component);
+    private destroyEntity(entity: Entity, children: DespawnChildren): void {
+        if (entity.destroyed) return;
+
+        // 1. 处理子节点: 递归销毁 (先子后父)，或脱离 / 挂到祖父节点下
+        for (const child of [...entity.getChildren()]) {
+            if (children === 'recursive') {
+                this.destroyEntity(child, 'recursive');
+            } else {
+                const grandparent = children === 'reparent' ? entity.getParent() : undefined;
+                if (grandparent) {
+                    this.addComponent(child, new Parent(grandparent));
+                } else {
+                    this.removeComponent(child, Parent);
+                }
             }
         }
 
-        // 2. 触发组件静态 Hooks (Bevy Style)
-        const compClass = component.constructor as typeof Component;
-        if (compClass.onAdd) {
-            compClass.onAdd(entity);
+        // 2. 生命周期: 实体仍然存活，回调中可以读取组件
+        // 顺序与移除单个组件一致，按阶段对全部组件依次进行:
+        // OnDespawn -> OnReplace -> 销毁系统 / static onRemove (Parent 在此脱离父节点) -> OnRemove
+        const components = entity.getComponentTypes().map(type => entity.get(type as ClassType<Component>)!);
+        const present = (component: Component) => entity.get(component.constructor as ClassType<Component>) === component;
+        for (const component of components) {
+            if (present(component)) this.triggerLifecycle(OnDespawn, entity, component);
         }
-    }
-
-    public getComponents(entity: Entity): Entity {
-        return entity; // Entity 本身就是容器
-    }
-
-    public removeComponent(entity: Entity, componentClass: Function): void {
-        if (entity.has(componentClass)) {
-            // 在移除前获取组件实例以触发销毁系统
-            const component = entity.get(componentClass as any)!;
-            
-            // 1. 触发销毁系统 (Lua Style)
-            const callbacks = this.destroySystems.get(componentClass);
+        for (const component of components) {
+            if (present(component)) this.triggerLifecycle(OnReplace, entity, component);
+        }
+        for (const component of components) {
+            if (!present(component)) continue;
+            const callbacks = this.destroySystems.get(component.constructor);
             if (callbacks) {
                 for (const callback of callbacks) {
                     callback(entity, component);
                 }
             }
-
-            // 2. 触发组件静态 Hooks (Bevy Style)
-            const compClass = componentClass as typeof Component;
+            const compClass = component.constructor as typeof Component;
             if (compClass.onRemove) {
                 compClass.onRemove(entity);
             }
+        }
+        for (const component of components) {
+            if (present(component)) this.triggerLifecycle(OnRemove, entity, component);
+        }
 
-            entity._removeComponentDirectly(componentClass);
+        entity.destroyed = true; // 标记为已销毁
+        // 清理该实体的观察者
+        this.entityObservers.delete(entity);
+        this.captureObservers.delete(entity);
+        // 注销该实体拥有的注册 (观察者实体等)
+        this.disposeOwner(entity);
 
-            // 更新组件索引
-            const typeSet = this.componentsByType.get(componentClass);
-            if (typeSet) {
-                typeSet.delete(component);
-            }
+        this.entities.delete(entity.id);
+
+        // 回收槽位，递增代数使旧 ID 失效
+        this.generations[entity.index]++;
+        this.freeIndices.push(entity.index);
 
-            this.checkE(entity);
+        // 记录移除 (RemovedComponents 可以读到被销毁的实体)
+        for (const type of entity.getComponentTypes()) {
+            if (!this.removedComponents.has(type)) {
+                this.removedComponents.set(type, []);
+            }
+            this.removedComponents.get(type)!.push({ entity, tick: this.changeTick });
         }
+
+        // 移出原型表，组件转入实体自身 (不参与查询，但仍可通过 entity.get 读取)
+        this.detachEntity(entity);
     }
 
     /**
-     * 添加一个支持 Bevy 风格参数注入的系统。
-     * 
-     * @example
-     * ecs.addSystem(Stage.Update,
-     *   [new Query([Position], [new With(Input)]), new Res(Time)],
-     *   (q, time) => { ... }
-     * );
-     */
-    public addSystem<Args extends any[]>(
-        stage: Stage,
-        params: { [K in keyof Args]: SystemParam },
-        systemFn: (...args: Args) => void
-    ): void;
-    /**
-     * 添加一个传统系统 (Class-based)。
-     * 默认添加到 Update 阶段。
-     */
-    public addSystem(system: System): void;
-    /**
-     * 添加一个传统系统到指定阶段。
+     * 把实体移出原型表 (Swap Remove)，组件保存在 `entity._detached` 中。
+     * @param removeRow 为 false 时不修改原型表 (调用方随后会重建所有表)
      */
-    public addSystem(stage: Stage, system: System): void;
-    
-    public addSystem(arg1: any, arg2?: any, arg3?: any): void {
-        let stage = Stage.Update;
-        let system: System | null = null;
-
-        // 重载解析
-        if (typeof arg1 === 'number' && arg2 instanceof System) {
-            // addSystem(Stage, System)
-            stage = arg1;
-            system = arg2;
-        } else if (arg1 instanceof System) {
-            // addSystem(System) -> Default Update
-            stage = Stage.Update;
-            system = arg1;
-        } else if (typeof arg1 === 'number' && Array.isArray(arg2) && typeof arg3 === 'function') {
-            // addSystem(Stage, Params, Fn)
-            stage = arg1;
-            const params = arg2 as SystemParam[];
-            const callback = arg3;
+    private detachEntity(entity: Entity, removeRow = true): void {
+        const from = entity._archetype;
+        const detached = new Map<Function, Component>();
+        for (const [type, column] of from.columns) {
+            detached.set(type, column[entity._row]);
+        }
+        if (removeRow) {
+            this.freezeIterations();
+            from._swapRemove(entity._row);
+        }
+        entity._detached = detached;
+        entity._archetype = from._detachedArchetype();
+        entity._row = 0;
+    }
 
-            // 1. 注册所有的 Query 参数作为子系统 (用于跟踪实体)
-            for (const param of params) {
-                if (param instanceof Query) {
-                    // Query 只需要被 ECS 跟踪，不需要加入执行列表
-                    this.registerSystem(param);
-                }
-            }
+    // --- 序列化辅助方法 ---
 
-            // 2. 创建一个全局系统来执行回调
-            system = new class extends System<[]> {
-                public componentsRequired = [];
-                public isGlobal = true;
-
-                public update(): void {
-                    const args = params.map(p => {
-                        if (p instanceof Query) {
-                            return p;
-                        } else if (p instanceof Res) {
-                            const res = this.ecs.getResource(p.type);
-                            if (!res) throw new Error(`Resource ${p.type.name} not found`);
-                            return res;
-                        }
-                    });
-                    callback(...args);
-                }
-            };
-        } else if (Array.isArray(arg1) && typeof arg2 === 'function') {
-             // 兼容旧的 addSystem(Params, Fn) -> Default Update
-             // 递归调用自己
-             this.addSystem(Stage.Update, arg1, arg2);
-             return;
+    private serializeValue(value: any, ctx: SerializeContext, registry: TypeRegistry): any {
+        if (value === null || typeof value !== 'object') {
+            return value;
         }
-
-        if (system) {
-            this.registerSystem(system);
-            this.systemsByStage.get(stage)?.add(system);
+        if (value instanceof Entity) {
+            return { $entity: ctx.entityId(value) };
+        }
+        if (Array.isArray(value)) {
+            return value.map(v => ctx.value(v));
+        }
+        const registration = registry.getByType(value.constructor);
+        if (registration) {
+            const data = registration.serialize ? registration.serialize(value, ctx) : this.serializeFields(value, ctx);
+            return { $type: registration.name, data };
         }
+        return this.serializeFields(value, ctx);
     }
 
-    /**
-     * 内部方法：注册系统以进行实体跟踪。
-     */
-    private registerSystem(system: System): void {
-        if (this.systems.has(system)) return;
-        
-        system.ecs = this;
-        this.systems.set(system, new Set());
-        for (let entity of this.entities.values()) {
-            this.checkES(entity, system);
+    private serializeFields(value: any, ctx: SerializeContext): Record<string, any> {
+        const data: Record<string, any> = {};
+        for (const key of Object.keys(value)) {
+            if (value instanceof Component && INTERNAL_COMPONENT_FIELDS.has(key)) continue;
+            data[key] = ctx.value(value[key]);
         }
+        return data;
     }
 
-    public removeSystem(system: System): void {
-        this.systems.delete(system);
-        for (const stageSet of this.systemsByStage.values()) {
-            stageSet.delete(system);
+    private deserializeValue(data: any, ctx: DeserializeContext, registry: TypeRegistry): any {
+        if (data === null || typeof data !== 'object') {
+            return data;
+        }
+        if (Array.isArray(data)) {
+            return data.map(v => ctx.value(v));
         }
+        if (typeof data.$entity === 'number') {
+            return ctx.entity(data.$entity);
+        }
+        if (typeof data.$type === 'string') {
+            const registration = registry.getByName(data.$type);
+            if (!registration) {
+                throw new Error(`Type ${data.$type} is not registered!`);
+            }
+            if (registration.deserialize) {
+                return registration.deserialize(data.data, ctx);
+            }
+            const instance = new (registration.type as any)();
+            Object.assign(instance, ctx.value(data.data));
+            return instance;
+        }
+        const result: Record<string, any> = {};
+        for (const key of Object.keys(data)) {
+            result[key] = ctx.value(data[key]);
+        }
+        return result;
     }
 
-    /**
-     * 获取系统缓存的实体集合。
-     * 供 System.queryTuple 使用。
-     */
-    public getSystemEntities(system: System): Set<Entity> {
-        return this.systems.get(system) || new Set();
-    }
+    // --- 原型存储 (Archetype Storage) ---
 
     /**
-     * 运行 Startup 阶段的系统。
-     * 应在游戏循环开始前调用一次。
+     * 获取 (或创建) 指定组件类型集合的原型。
+     * 新原型会与所有已注册的系统匹配一次并缓存结果。
      */
-    public startup(): void {
-        this.runStage(Stage.Startup);
+    private getArchetype(types: Function[]): Archetype {
+        const sorted = Archetype.sortTypes(types);
+        const key = Archetype.key(sorted);
+        let archetype = this.archetypeIndex.get(key);
+        if (archetype) return archetype;
+
+        archetype = new Archetype(this.archetypes.length, sorted);
+        this.archetypes.push(archetype);
+        this.archetypeIndex.set(key, archetype);
+        for (const type of sorted) {
+            if (!this.archetypesByType.has(type)) {
+                this.archetypesByType.set(type, []);
+            }
+            this.archetypesByType.get(type)!.push(archetype);
+        }
+        for (const [system, matched] of this.systems) {
+            if (!system.isGlobal && system.matchesArchetype(archetype)) {
+                matched.push(archetype);
+            }
+        }
+        return archetype;
     }
 
     /**
-     * 运行 FixedUpdate 阶段的系统。
-     * 应在物理循环中调用。
+     * 通过迁移边获取添加一个组件类型后的原型。
      */
-    public fixedUpdate(): void {
-        this.runStage(Stage.FixedUpdate);
+    private archetypeWithAdded(from: Archetype, type: Function): Archetype {
+        let to = from.addEdges.get(type);
+        if (!to) {
+            to = this.getArchetype([...from.types, type]);
+            from.addEdges.set(type, to);
+            to.removeEdges.set(type, from);
+        }
+        return to;
     }
 
     /**
-     * 运行 Update 阶段的系统。
-     * 应在每帧调用。
+     * 通过迁移边获取移除一个组件类型后的原型。
      */
-    public update(): void {
-        // 1. 交换事件队列 (简单的双缓冲)
-        this.eventQueues = this.nextFrameEvents;
-        this.nextFrameEvents = new Map();
-
-        // 2. 运行 Update 阶段系统
-        this.runStage(Stage.Update);
-
-        // 3. 移除标记为删除的实体
-        while (this.entitiesToDestroy.length > 0) {
-            this.destroyEntity(this.entitiesToDestroy.pop() as Entity);
+    private archetypeWithRemoved(from: Archetype, type: Function): Archetype {
+        let to = from.removeEdges.get(type);
+        if (!to) {
+            to = this.getArchetype(from.types.filter(t => t !== type));
+            from.removeEdges.set(type, to);
+            to.addEdges.set(type, from);
         }
+        return to;
     }
 
-    private runStage(stage: Stage): void {
-        const systems = this.systemsByStage.get(stage);
-        if (!systems) return;
-
-        for (const system of systems) {
-            // 构造组件元组迭代器
-            const componentIterator = {
-                *[Symbol.iterator]() {
-                    const reqs = system.componentsRequired;
-                    const entities = system.ecs.getSystemEntities(system);
-                    
-                    for (const entity of entities) {
-                        const tuple = reqs.map(cls => entity.get(cls as any)!);
-                        yield tuple;
-                    }
-                }
-            };
-            
-            // @ts-ignore
-            system.update(componentIterator);
+    /**
+     * 把实体从当前原型迁移到目标原型，可附带一个新增的组件。
+     */
+    private moveEntity(entity: Entity, to: Archetype, added?: Component): void {
+        this.freezeIterations();
+        const from = entity._archetype;
+        const row = entity._row;
+        const newRow = to.entities.length;
+        to.entities.push(entity);
+        for (const [type, column] of to.columns) {
+            column.push(added && type === added.constructor ? added : from.columns.get(type)![row]);
         }
+        from._swapRemove(row);
+        entity._archetype = to;
+        entity._row = newRow;
     }
+}
 
-    // --- 私有辅助方法 ---
+/**
+ * 判断参数是否为调度标签 (用于 addSystem 重载解析)。
+ */
+function isScheduleLabel(value: any): value is ScheduleLabel {
+    return typeof value === 'number' || typeof value === 'string' || value instanceof StateSchedule;
+}
 
-    private destroyEntity(entity: Entity): void {
-        entity.destroyed = true; // 标记为已销毁
-        // 清理该实体的观察者
-        this.entityObservers.delete(entity);
+/**
+ * 获取系统的可读名称。
+ */
+function systemName(system: System): string {
+    if (system.name) return system.name;
+    return system instanceof FunctionSystem ? '<anonymous function system>' : system.constructor.name;
+}
 
-        this.entities.delete(entity.id);
-        for (let entities of this.systems.values()) {
-            entities.delete(entity);
+/**
+ * 获取系统访问的组件与资源类型 (用于歧义检测)。
+ */
+function systemAccess(system: System): Set<Function> {
+    const access = new Set<Function>(system.componentsRequired);
+    if (system instanceof FunctionSystem) {
+        for (const param of system.params) {
+            if (param instanceof Query) {
+                for (const type of param.componentsRequired) access.add(type);
+            } else if (param instanceof Res || param instanceof RemovedComponents) {
+                access.add(param.type);
+            } else if (param instanceof EventReader || param instanceof EventWriter) {
+                access.add(param.eventType);
+            }
         }
     }
+    return access;
+}
 
-    private checkE(entity: Entity): void {
-        for (let system of this.systems.keys()) {
-            this.checkES(entity, system);
-        }
-    }
+/**
+ * 获取调度的可读名称。
+ */
+function scheduleName(stage: Stage | string): string {
+    if (typeof stage === 'number') return Stage[stage];
+    return stage.startsWith(CUSTOM_SCHEDULE_PREFIX) ? stage.slice(CUSTOM_SCHEDULE_PREFIX.length) : stage;
+}
 
-    private checkES(entity: Entity, system: System): void {
-        if (system.isGlobal) return;
-        let need = system.componentsRequired;
-        if (entity._hasAll(need)) {
-            this.systems.get(system)!.add(entity);
-        } else {
-            this.systems.get(system)!.delete(entity);
-        }
-    }
+/**
+ * 自定义调度在 systemsByStage 中的键前缀，避免与状态调度的键冲突。
+ */
+const CUSTOM_SCHEDULE_PREFIX = 'Schedule:';
+
+/**
+ * 获取调度标签在 systemsByStage 中的键。
+ */
+function scheduleKey(label: ScheduleLabel): Stage | string {
+    if (label instanceof StateSchedule) return label.key;
+    return typeof label === 'string' ? CUSTOM_SCHEDULE_PREFIX + label : label;
 }
 
 export { ECS as World };
\ No newline at end of file